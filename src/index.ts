@@ -2,8 +2,24 @@ export * from './utils/common';
 
 export * from './utils/storage';
 
+export * from './utils/indexedDB';
+
+export * from './utils/queue';
+
+export * from './utils/cookie';
+
 export * from './utils/date';
 
+export * from './utils/dateLocale';
+
+export * from './utils/businessDay';
+
+export * from './utils/fiscalYear';
+
+export * from './utils/recurrence';
+
+export * from './utils/duration';
+
 export * from './utils/array';
 
 export * from './utils/location';
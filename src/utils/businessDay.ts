@@ -0,0 +1,283 @@
+import { addTime, formatDateTime, parseDate } from './date';
+
+/**
+ * @jsonDoc
+ * @description 日历中的日期，可以是日期对象或 'YYYY-MM-DD' 字符串，数组表示包含首尾的日期范围
+ */
+export type CalendarDateInput = Date | string | [Date | string, Date | string];
+
+/**
+ * @jsonDoc
+ * @description 工作日历配置
+ */
+export interface BusinessCalendarOptions {
+  // 周末是星期几（0-6，0 表示星期日），默认为 [0, 6]
+  weekends?: number[];
+  // 节假日
+  holidays?: CalendarDateInput[];
+  // 调休上班日，即使是周末也视为工作日
+  workdays?: CalendarDateInput[];
+  // 判断日期时使用的 IANA 时区，不传则使用本地时区
+  timeZone?: string;
+}
+
+// 连续非工作日的上限，超出后认为日历中没有工作日，避免死循环
+const MAX_NON_BUSINESS_DAYS = 366;
+
+/**
+ * @jsonDoc
+ * @description 工作日历类，支持自定义周末、节假日和调休上班日
+ */
+export class BusinessCalendar {
+  private weekends: number[];
+  private holidays = new Set<string>();
+  private workdays = new Set<string>();
+  private timeZone?: string;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的工作日历实例
+   * @param {BusinessCalendarOptions} [options] - 配置选项
+   * @param {number[]} [options.weekends=[0, 6]] - 周末是星期几
+   * @param {Array} [options.holidays] - 节假日，'YYYY-MM-DD' 字符串、日期对象或日期范围
+   * @param {Array} [options.workdays] - 调休上班日
+   * @param {string} [options.timeZone] - 判断日期时使用的 IANA 时区
+   */
+  constructor(options: BusinessCalendarOptions = {}) {
+    this.weekends = options.weekends || [0, 6];
+    this.timeZone = options.timeZone;
+    this.addHolidays(...(options.holidays || []));
+    this.addWorkdays(...(options.workdays || []));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 添加节假日
+   * @param {...CalendarDateInput} dates - 'YYYY-MM-DD' 字符串、日期对象或日期范围
+   * @returns {BusinessCalendar} 当前实例，支持链式调用
+   */
+  addHolidays(...dates: CalendarDateInput[]): BusinessCalendar {
+    dates.forEach(date => this.expandDates(date).forEach(key => this.holidays.add(key)));
+    return this;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 添加调休上班日
+   * @param {...CalendarDateInput} dates - 'YYYY-MM-DD' 字符串、日期对象或日期范围
+   * @returns {BusinessCalendar} 当前实例，支持链式调用
+   */
+  addWorkdays(...dates: CalendarDateInput[]): BusinessCalendar {
+    dates.forEach(date => this.expandDates(date).forEach(key => this.workdays.add(key)));
+    return this;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查日期是否为周末（不考虑调休）
+   * @param {Date} date - 日期对象
+   * @returns {boolean} 如果是周末则返回 true，否则返回 false
+   */
+  isWeekend(date: Date): boolean {
+    return this.weekends.includes(this.getWeekday(this.toKey(date)));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查日期是否为节假日
+   * @param {Date} date - 日期对象
+   * @returns {boolean} 如果是节假日则返回 true，否则返回 false
+   */
+  isHoliday(date: Date): boolean {
+    return this.holidays.has(this.toKey(date));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查日期是否为工作日。调休上班日是工作日，节假日和周末不是工作日
+   * @param {Date} date - 日期对象
+   * @returns {boolean} 如果是工作日则返回 true，否则返回 false
+   */
+  isBusinessDay(date: Date): boolean {
+    const key = this.toKey(date);
+    if (this.workdays.has(key)) return true;
+    if (this.holidays.has(key)) return false;
+    return !this.weekends.includes(this.getWeekday(key));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 向日期添加指定的工作日数，保留原来的时分秒
+   * @param {Date} date - 原始日期
+   * @param {number} amount - 要添加的工作日数，负数表示向前
+   * @returns {Date} 添加工作日后的新日期
+   */
+  addBusinessDays(date: Date, amount: number): Date {
+    const step = amount < 0 ? -1 : 1;
+    let remaining = Math.abs(Math.trunc(amount));
+    let current = new Date(date);
+    let skipped = 0;
+
+    while (remaining > 0) {
+      current = addTime(current, step, 'days', { timeZone: this.timeZone });
+      if (this.isBusinessDay(current)) {
+        remaining--;
+        skipped = 0;
+      } else if (++skipped > MAX_NON_BUSINESS_DAYS) {
+        throw new Error('工作日历中连续一年以上没有工作日');
+      }
+    }
+    return current;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取下一个工作日
+   * @param {Date} date - 日期对象
+   * @param {boolean} [includeToday=false] - 当天是工作日时是否直接返回当天
+   * @returns {Date} 下一个工作日，保留原来的时分秒
+   */
+  nextBusinessDay(date: Date, includeToday: boolean = false): Date {
+    if (includeToday && this.isBusinessDay(date)) {
+      return new Date(date);
+    }
+    return this.addBusinessDays(date, 1);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取上一个工作日
+   * @param {Date} date - 日期对象
+   * @param {boolean} [includeToday=false] - 当天是工作日时是否直接返回当天
+   * @returns {Date} 上一个工作日，保留原来的时分秒
+   */
+  previousBusinessDay(date: Date, includeToday: boolean = false): Date {
+    if (includeToday && this.isBusinessDay(date)) {
+      return new Date(date);
+    }
+    return this.addBusinessDays(date, -1);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 统计两个日期之间的工作日数，包含开始日期、不包含结束日期
+   * @param {Date} startDate - 开始日期
+   * @param {Date} endDate - 结束日期
+   * @returns {number} 工作日数，结束日期早于开始日期时为负数
+   */
+  countBusinessDays(startDate: Date, endDate: Date): number {
+    const endKey = this.toKey(endDate);
+    const forward = this.toKey(startDate) <= endKey;
+    let current = forward ? startDate : endDate;
+    const stopKey = forward ? endKey : this.toKey(startDate);
+    let count = 0;
+
+    while (this.toKey(current) < stopKey) {
+      if (this.isBusinessDay(current)) {
+        count++;
+      }
+      current = addTime(current, 1, 'days', { timeZone: this.timeZone });
+    }
+    return forward ? count : -count;
+  }
+
+  /**
+   * 获取日期在日历时区中的 'YYYY-MM-DD' 表示
+   */
+  private toKey(date: Date | string): string {
+    if (typeof date === 'string') {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new Error(`无效的日期: ${date}，请使用 YYYY-MM-DD 格式`);
+      }
+      return date;
+    }
+    return formatDateTime(date, 'YYYY-MM-DD', { timeZone: this.timeZone });
+  }
+
+  /**
+   * 获取 'YYYY-MM-DD' 对应的星期（0-6）
+   */
+  private getWeekday(key: string): number {
+    return parseDate(key, 'YYYY-MM-DD', { timeZone: 'UTC' }).getUTCDay();
+  }
+
+  /**
+   * 把日期或日期范围展开为 'YYYY-MM-DD' 列表
+   */
+  private expandDates(input: CalendarDateInput): string[] {
+    if (!Array.isArray(input)) {
+      return [this.toKey(input)];
+    }
+
+    const [start, end] = input.map(date => this.toKey(date));
+    const keys: string[] = [];
+    // 在 UTC 中按天遍历，不受夏令时影响
+    let current = parseDate(start, 'YYYY-MM-DD', { timeZone: 'UTC' });
+    let key = start;
+    while (key <= end) {
+      keys.push(key);
+      current = addTime(current, 1, 'days', { timeZone: 'UTC' });
+      key = formatDateTime(current, 'YYYY-MM-DD', { timeZone: 'UTC' });
+    }
+    return keys;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的工作日历实例
+ * @param {BusinessCalendarOptions} [options] - 配置选项
+ * @returns {BusinessCalendar} 工作日历实例
+ */
+export function createBusinessCalendar(options: BusinessCalendarOptions = {}): BusinessCalendar {
+  return new BusinessCalendar(options);
+}
+
+/**
+ * @jsonDoc
+ * @description 中国法定节假日和调休上班日安排，按国务院办公厅每年发布的通知整理，键为年份
+ */
+export const CHINA_HOLIDAY_SCHEDULES: Record<number, { holidays: CalendarDateInput[]; workdays: CalendarDateInput[] }> = {
+  2024: {
+    holidays: [
+      '2024-01-01',
+      ['2024-02-10', '2024-02-17'],
+      ['2024-04-04', '2024-04-06'],
+      ['2024-05-01', '2024-05-05'],
+      '2024-06-10',
+      ['2024-09-15', '2024-09-17'],
+      ['2024-10-01', '2024-10-07']
+    ],
+    workdays: ['2024-02-04', '2024-02-18', '2024-04-07', '2024-04-28', '2024-05-11', '2024-09-14', '2024-09-29', '2024-10-12']
+  },
+  2025: {
+    holidays: [
+      '2025-01-01',
+      ['2025-01-28', '2025-02-04'],
+      ['2025-04-04', '2025-04-06'],
+      ['2025-05-01', '2025-05-05'],
+      ['2025-05-31', '2025-06-02'],
+      ['2025-10-01', '2025-10-08']
+    ],
+    workdays: ['2025-01-26', '2025-02-08', '2025-04-27', '2025-09-28', '2025-10-11']
+  }
+};
+
+/**
+ * @jsonDoc
+ * @description 创建中国的工作日历，包含 CHINA_HOLIDAY_SCHEDULES 中的法定节假日和调休上班日，时区为 Asia/Shanghai
+ * @param {Object} [options] - 配置选项
+ * @param {Array} [options.holidays] - 额外的节假日，如尚未收录年份的安排
+ * @param {Array} [options.workdays] - 额外的调休上班日
+ * @returns {BusinessCalendar} 工作日历实例
+ */
+export function createChinaBusinessCalendar(
+  options: Pick<BusinessCalendarOptions, 'holidays' | 'workdays'> = {}
+): BusinessCalendar {
+  const calendar = new BusinessCalendar({ timeZone: 'Asia/Shanghai' });
+  Object.keys(CHINA_HOLIDAY_SCHEDULES).forEach(year => {
+    const schedule = CHINA_HOLIDAY_SCHEDULES[Number(year)];
+    calendar.addHolidays(...schedule.holidays).addWorkdays(...schedule.workdays);
+  });
+  return calendar.addHolidays(...(options.holidays || [])).addWorkdays(...(options.workdays || []));
+}
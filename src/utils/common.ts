@@ -1,88 +1,141 @@
+import { DateFormatOptions, formatDateTime } from './date';
+
 /**
  * @jsonDoc
  * @description 格式化日期字符串
  * @param {Date} date - 日期对象
- * @param {string} format - 格式模板，如 'YYYY-MM-DD'
+ * @param {string} format - 格式模板，如 'YYYY-MM-DD'，支持的标记与 formatDateTime 相同
+ * @param {DateFormatOptions} [options] - 格式化选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @param {string|DateLocale} [options.locale] - 语言标签或语言包，不传则使用全局默认语言
  * @returns {string} 格式化后的日期字符串
  */
-export function formatDate(date: Date, format: string = 'YYYY-MM-DD'): string {
-    // 实现代码...
-    return format
-        .replace('YYYY', date.getFullYear().toString())
-        .replace('MM', (date.getMonth() + 1).toString().padStart(2, '0'))
-        .replace('DD', date.getDate().toString().padStart(2, '0'));
+export function formatDate(date: Date, format: string = 'YYYY-MM-DD', options: DateFormatOptions = {}): string {
+    return formatDateTime(date, format, options);
 }
 
 /**
- * @jsonDoc
- * @description 深拷贝对象，支持处理循环引用、日期、正则表达式等特殊对象
- * @param {any} obj - 要拷贝的对象
- * @param {Map} [cache=new Map()] - 用于处理循环引用的缓存
- * @returns {any} 拷贝后的新对象
+ * 遍历值时创建的容器，add 用于添加已处理的子元素，done 在所有子元素添加完成后返回最终结果
  */
-export function deepClone<T>(obj: T, cache = new Map()): T {
+interface WalkContainer {
+    result: any;
+    add(value: any, key: any): void;
+    done?(): any;
+}
+
+/**
+ * 按类型遍历值时各类型的处理方式，deepClone 和 serialize 共用同一套类型遍历
+ */
+interface ValueWalker {
+    // 处理基本类型和 null
+    primitive(value: any): any;
+    // 再次遇到已处理过的对象，pending 为 true 表示该对象是正在处理的祖先对象（循环引用）
+    seen(result: any, pending: boolean): any;
+    // 处理日期、正则表达式等不需要遍历子元素的对象，返回 undefined 表示按容器继续处理
+    leaf(value: any, walk: (value: any) => any): any;
+    map(): WalkContainer;
+    set(): WalkContainer;
+    array(source: any[]): WalkContainer;
+    object(source: object): WalkContainer;
+}
+
+/**
+ * 按类型遍历值，Map、Set、数组和对象的子元素会被递归处理，已处理的对象通过 cache 复用
+ */
+function walkValue(value: any, walker: ValueWalker, cache: Map<any, any>, pending: Set<any>): any {
     // 处理基本类型和 null
-    if (obj === null || typeof obj !== 'object') {
-        return obj;
+    if (value === null || typeof value !== 'object') {
+        return walker.primitive(value);
     }
-    
+
     // 检查缓存，处理循环引用
-    if (cache.has(obj)) {
-        return cache.get(obj);
+    if (cache.has(value)) {
+        return walker.seen(cache.get(value), pending.has(value));
     }
-    
-    // 处理日期对象
-    if (obj instanceof Date) {
-        return new Date(obj.getTime()) as unknown as T;
+
+    const walk = (item: any) => walkValue(item, walker, cache, pending);
+    const leaf = walker.leaf(value, walk);
+    if (leaf !== undefined) {
+        return leaf;
     }
-    
-    // 处理正则表达式
-    if (obj instanceof RegExp) {
-        return new RegExp(obj.source, obj.flags) as unknown as T;
+
+    let container: WalkContainer;
+    if (value instanceof Map) {
+        container = walker.map();
+    } else if (value instanceof Set) {
+        container = walker.set();
+    } else if (Array.isArray(value)) {
+        container = walker.array(value);
+    } else {
+        container = walker.object(value);
     }
-    
-    // 处理 Map
-    if (obj instanceof Map) {
-        const result = new Map();
-        cache.set(obj, result);
-        obj.forEach((value, key) => {
-            result.set(deepClone(key, cache), deepClone(value, cache));
+
+    // 先将容器添加到缓存，子元素引用当前对象时可以找到
+    cache.set(value, container.result);
+    pending.add(value);
+
+    if (value instanceof Map) {
+        value.forEach((item, key) => {
+            const walkedKey = walk(key);
+            container.add(walk(item), walkedKey);
         });
-        return result as unknown as T;
+    } else if (value instanceof Set) {
+        value.forEach(item => container.add(walk(item), undefined));
+    } else if (Array.isArray(value)) {
+        value.forEach((item, index) => container.add(walk(item), index));
+    } else {
+        // 复制所有可枚举属性
+        Object.entries(value).forEach(([key, item]) => container.add(walk(item), key));
     }
-    
-    // 处理 Set
-    if (obj instanceof Set) {
+
+    pending.delete(value);
+    const result = container.done ? container.done() : container.result;
+    cache.set(value, result);
+    return result;
+}
+
+// deepClone 使用的遍历方式，循环引用指向拷贝后的对象
+const CLONE_WALKER: ValueWalker = {
+    primitive: value => value,
+    seen: result => result,
+    leaf: value => {
+        // 处理日期对象
+        if (value instanceof Date) {
+            return new Date(value.getTime());
+        }
+        // 处理正则表达式
+        if (value instanceof RegExp) {
+            return new RegExp(value.source, value.flags);
+        }
+        return undefined;
+    },
+    map: () => {
+        const result = new Map();
+        return { result, add: (value, key) => result.set(key, value) };
+    },
+    set: () => {
         const result = new Set();
-        cache.set(obj, result);
-        obj.forEach(value => {
-            result.add(deepClone(value, cache));
-        });
-        return result as unknown as T;
-    }
-    
-    // 处理数组
-    if (Array.isArray(obj)) {
+        return { result, add: value => result.add(value) };
+    },
+    array: () => {
         const result: any[] = [];
-        // 将新数组添加到缓存
-        cache.set(obj, result);
-        obj.forEach((item, index) => {
-            result[index] = deepClone(item, cache);
-        });
-        return result as unknown as T;
+        return { result, add: (value, index) => { result[index] = value; } };
+    },
+    object: source => {
+        const result = Object.create(Object.getPrototypeOf(source));
+        return { result, add: (value, key) => { result[key] = value; } };
     }
-    
-    // 处理普通对象
-    const result = Object.create(Object.getPrototypeOf(obj));
-    // 将新对象添加到缓存
-    cache.set(obj, result);
-    
-    // 复制所有可枚举属性
-    Object.entries(obj).forEach(([key, value]) => {
-        result[key] = deepClone(value, cache);
-    });
-    
-    return result;
+};
+
+/**
+ * @jsonDoc
+ * @description 深拷贝对象，支持处理循环引用、日期、正则表达式等特殊对象
+ * @param {any} obj - 要拷贝的对象
+ * @param {Map} [cache=new Map()] - 用于处理循环引用的缓存
+ * @returns {any} 拷贝后的新对象
+ */
+export function deepClone<T>(obj: T, cache = new Map()): T {
+    return walkValue(obj, CLONE_WALKER, cache, new Set());
 }
 
 /**
@@ -510,8 +563,11 @@ export function tryFn<T, E = Error>(
  * @param {Function} fn - 要执行的异步函数
  * @param {Object} [options] - 配置选项
  * @param {number} [options.retries=3] - 最大重试次数
- * @param {number} [options.delay=1000] - 重试间隔（毫秒）
- * @param {Function} [options.onRetry] - 重试时的回调函数
+ * @param {number} [options.delay=1000] - 重试间隔（毫秒），设置 factor 时为第一次重试前的间隔
+ * @param {number} [options.factor=1] - 退避倍数，第 n 次重试前等待 delay * factor^(n - 1) 毫秒
+ * @param {number} [options.maxDelay=Infinity] - 最大重试间隔（毫秒）
+ * @param {Function} [options.shouldRetry] - 判断失败后是否需要重试，返回 false 时直接抛出错误
+ * @param {Function} [options.onRetry] - 重试时的回调函数，参数为错误、第几次重试和等待时间，返回 Promise 时会等待其完成
  * @returns {Promise<any>} Promise对象
  */
 export async function retry<T>(
@@ -519,10 +575,13 @@ export async function retry<T>(
   options: {
     retries?: number;
     delay?: number;
-    onRetry?: (error: Error, attempt: number) => void;
+    factor?: number;
+    maxDelay?: number;
+    shouldRetry?: (error: Error, attempt: number) => boolean;
+    onRetry?: (error: Error, attempt: number, delay: number) => void | Promise<void>;
   } = {}
 ): Promise<T> {
-  const { retries = 3, delay = 1000, onRetry } = options;
+  const { retries = 3, delay = 1000, factor = 1, maxDelay = Infinity, shouldRetry, onRetry } = options;
   let lastError: Error;
   
   for (let attempt = 0; attempt <= retries; attempt++) {
@@ -532,11 +591,16 @@ export async function retry<T>(
       lastError = error as Error;
       
       if (attempt < retries) {
+        if (shouldRetry && !shouldRetry(lastError, attempt + 1)) {
+          break;
+        }
+        
+        const wait = Math.min(delay * Math.pow(factor, attempt), maxDelay);
         if (onRetry) {
-          onRetry(lastError, attempt + 1);
+          await onRetry(lastError, attempt + 1, wait);
         }
         
-        await sleep(delay);
+        await sleep(wait);
       }
     }
   }
@@ -644,6 +708,220 @@ export function safeJsonStringify(value: any, defaultValue: string = '{}'): stri
   }
 }
 
+// 类型标记字段，带有该字段的对象表示需要还原的特殊类型；字段名带有库前缀，避免与普通数据中的 __type 等字段冲突
+const SERIALIZE_TYPE_TAG = '__fsType';
+
+// 支持序列化的类型化数组名称，BigInt 类型化数组在运行环境支持时才会启用
+const TYPED_ARRAY_NAMES = [
+    'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array',
+    'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array'
+];
+
+/**
+ * 获取全局构造函数，不存在时返回 undefined
+ */
+function getGlobalConstructor(name: string): any {
+    return (globalThis as any)[name];
+}
+
+/**
+ * 获取类型化数组的类型名称，子类（如 Node.js 的 Buffer）使用最近的内置类型化数组名称
+ */
+function getTypedArrayName(value: ArrayBufferView): string {
+    let proto = Object.getPrototypeOf(value);
+    while (proto) {
+        const name = proto.constructor && proto.constructor.name;
+        if (name === 'Buffer' || TYPED_ARRAY_NAMES.includes(name)) {
+            return name;
+        }
+        proto = Object.getPrototypeOf(proto);
+    }
+    return 'Uint8Array';
+}
+
+/**
+ * 创建带类型标记的结构
+ */
+function createTaggedNode(type: string, value?: any): any {
+    return value === undefined ? { [SERIALIZE_TYPE_TAG]: type } : { [SERIALIZE_TYPE_TAG]: type, value };
+}
+
+// serialize 使用的遍历方式，将值转换为可以 JSON 序列化的带类型标记结构
+const SERIALIZE_WALKER: ValueWalker = {
+    primitive: value => {
+        if (value === undefined) {
+            return createTaggedNode('undefined');
+        }
+        if (typeof value === 'number') {
+            // NaN、Infinity 无法用 JSON 表示
+            return Number.isFinite(value) ? value : createTaggedNode('Number', String(value));
+        }
+        if (typeof value === 'bigint') {
+            return createTaggedNode('BigInt', value.toString());
+        }
+        return value;
+    },
+    seen: (result, pending) => {
+        if (pending) {
+            throw new Error('无法序列化包含循环引用的对象');
+        }
+        return result;
+    },
+    leaf: (value, walk) => {
+        // 处理日期对象
+        if (value instanceof Date) {
+            return createTaggedNode('Date', isNaN(value.getTime()) ? null : value.toISOString());
+        }
+
+        // 处理正则表达式
+        if (value instanceof RegExp) {
+            return createTaggedNode('RegExp', { source: value.source, flags: value.flags });
+        }
+
+        // 处理 ArrayBuffer
+        if (value instanceof ArrayBuffer) {
+            return createTaggedNode('ArrayBuffer', Array.from(new Uint8Array(value)));
+        }
+
+        // 处理类型化数组和 Buffer
+        if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+            const name = getTypedArrayName(value);
+            const items = Array.from(value as unknown as ArrayLike<number | bigint>);
+            return createTaggedNode(name, name.startsWith('Big') ? items.map(item => item.toString()) : items);
+        }
+
+        // 与 JSON.stringify 一致，优先使用对象自身的 toJSON
+        if (!(value instanceof Map) && !(value instanceof Set) && typeof value.toJSON === 'function') {
+            const json = value.toJSON();
+            return json === value ? undefined : walk(json);
+        }
+        return undefined;
+    },
+    map: () => {
+        const entries: any[] = [];
+        return { result: createTaggedNode('Map', entries), add: (value, key) => entries.push([key, value]) };
+    },
+    set: () => {
+        const items: any[] = [];
+        return { result: createTaggedNode('Set', items), add: value => items.push(value) };
+    },
+    array: source => {
+        // 与 JSON.stringify 一致，数组中的空位、函数和 Symbol 转换为 null
+        const result = new Array(source.length).fill(null);
+        return {
+            result,
+            add: (value, index) => {
+                result[index] = typeof value === 'function' || typeof value === 'symbol' ? null : value;
+            }
+        };
+    },
+    object: () => {
+        const entries: Record<string, any> = {};
+        return {
+            result: entries,
+            add: (value, key) => {
+                if (typeof value !== 'function' && typeof value !== 'symbol') {
+                    entries[key] = value;
+                }
+            },
+            // 普通对象本身带有类型标记字段时需要包装，避免被误认为特殊类型
+            done: () => (SERIALIZE_TYPE_TAG in entries ? createTaggedNode('Object', entries) : entries)
+        };
+    }
+};
+
+/**
+ * 判断 JSON 结构是否为带类型标记的结构，只有类型标记和 value 两个字段的对象才会被识别
+ */
+function isTaggedNode(node: Record<string, any>): boolean {
+    return typeof node[SERIALIZE_TYPE_TAG] === 'string'
+        && Object.keys(node).every(key => key === SERIALIZE_TYPE_TAG || key === 'value');
+}
+
+/**
+ * 将普通 JSON 对象的各字段依次还原
+ */
+function decodeSerializableObject(node: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    Object.keys(node).forEach(key => {
+        result[key] = decodeSerializable(node[key]);
+    });
+    return result;
+}
+
+/**
+ * 将带类型标记的结构还原为原始值，无法识别的类型标记按普通 JSON 对象处理
+ */
+function decodeSerializable(node: any): any {
+    if (node === null || typeof node !== 'object') {
+        return node;
+    }
+
+    if (Array.isArray(node)) {
+        return node.map(decodeSerializable);
+    }
+
+    if (!isTaggedNode(node)) {
+        return decodeSerializableObject(node);
+    }
+
+    const type: string = node[SERIALIZE_TYPE_TAG];
+    const { value } = node;
+    switch (type) {
+        case 'undefined':
+            return undefined;
+        case 'Number':
+            return Number(value);
+        case 'BigInt':
+            return getGlobalConstructor('BigInt')(value);
+        case 'Date':
+            return new Date(value === null ? NaN : value);
+        case 'RegExp':
+            return new RegExp(value.source, value.flags);
+        case 'ArrayBuffer':
+            return new Uint8Array(value).buffer;
+        case 'Map':
+            return new Map(value.map(([key, item]: [any, any]) => [decodeSerializable(key), decodeSerializable(item)]));
+        case 'Set':
+            return new Set(value.map(decodeSerializable));
+        case 'Object':
+            return decodeSerializableObject(value);
+        case 'Buffer': {
+            // 运行环境没有 Buffer 时还原为 Uint8Array
+            const BufferCtor = getGlobalConstructor('Buffer');
+            return BufferCtor ? BufferCtor.from(value) : new Uint8Array(value);
+        }
+        default: {
+            const TypedArray = TYPED_ARRAY_NAMES.includes(type) ? getGlobalConstructor(type) : undefined;
+            if (!TypedArray) {
+                return decodeSerializableObject(node);
+            }
+            const BigIntCtor = getGlobalConstructor('BigInt');
+            return new TypedArray(type.startsWith('Big') ? value.map((item: string) => BigIntCtor(item)) : value);
+        }
+    }
+}
+
+/**
+ * @jsonDoc
+ * @description 将值序列化为字符串，支持 Date、RegExp、Map、Set、BigInt、类型化数组、Buffer、ArrayBuffer、undefined、NaN 和 Infinity，可通过 deserialize 完整还原
+ * @param {any} value - 要序列化的值
+ * @returns {string} 序列化后的字符串，普通 JSON 数据的结果与 JSON.stringify 相同
+ */
+export function serialize(value: any): string {
+    return JSON.stringify(walkValue(value, SERIALIZE_WALKER, new Map(), new Set()));
+}
+
+/**
+ * @jsonDoc
+ * @description 将 serialize 生成的字符串还原为原始值，也可以解析普通 JSON 字符串
+ * @param {string} str - 要反序列化的字符串
+ * @returns {any} 还原后的值
+ */
+export function deserialize<T = any>(str: string): T {
+    return decodeSerializable(JSON.parse(str));
+}
+
 /**
  * @jsonDoc
  * @description 检查值是否为空（null、undefined、空字符串、空数组、空对象）
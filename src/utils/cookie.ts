@@ -0,0 +1,392 @@
+/**
+ * @jsonDoc
+ * @description Cookie 解析与序列化工具（RFC 6265），不依赖 document，可在 Node.js 服务端渲染中使用
+ */
+
+/**
+ * @jsonDoc
+ * @description Cookie 序列化选项
+ */
+export interface CookieSerializeOptions {
+  expires?: Date;
+  // 有效期（秒），优先级高于 expires
+  maxAge?: number;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  // CHIPS 分区 cookie，需要同时设置 secure
+  partitioned?: boolean;
+  priority?: 'Low' | 'Medium' | 'High';
+  // 值的编码函数，默认为 encodeURIComponent
+  encode?: (value: string) => string;
+}
+
+/**
+ * @jsonDoc
+ * @description 从 Set-Cookie 头解析出的 cookie
+ */
+export interface SetCookie {
+  name: string;
+  value: string;
+  expires?: Date;
+  maxAge?: number;
+  domain?: string;
+  path?: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  partitioned: boolean;
+  priority?: 'Low' | 'Medium' | 'High';
+}
+
+/**
+ * @jsonDoc
+ * @description 单个 cookie（名称 + 值）的最大字节数，超出后浏览器会直接丢弃
+ */
+export const COOKIE_MAX_SIZE = 4096;
+
+/**
+ * @jsonDoc
+ * @description 单个域名下 cookie 数量的安全上限（RFC 6265 要求浏览器至少支持 50 个）
+ */
+export const COOKIE_MAX_COUNT = 50;
+
+/**
+ * @jsonDoc
+ * @description cookie 超出大小或数量限制时的错误
+ */
+export class CookieLimitError extends Error {
+  cookieName: string;
+  // 超出的限制类型：'size' 表示大小，'count' 表示数量
+  reason: 'size' | 'count';
+  actual: number;
+  limit: number;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的 cookie 限制错误
+   * @param {string} cookieName - cookie 名称
+   * @param {string} reason - 超出的限制类型，'size' 或 'count'
+   * @param {number} actual - 实际大小或数量
+   * @param {number} limit - 限制值
+   */
+  constructor(cookieName: string, reason: 'size' | 'count', actual: number, limit: number) {
+    super(reason === 'size'
+      ? `cookie ${cookieName} 大小为 ${actual} 字节，超出 ${limit} 字节的限制`
+      : `写入 cookie ${cookieName} 后数量为 ${actual} 个，超出 ${limit} 个的限制`);
+    this.name = 'CookieLimitError';
+    this.cookieName = cookieName;
+    this.reason = reason;
+    this.actual = actual;
+    this.limit = limit;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 检查 cookie 是否超出大小或数量限制
+ * @param {string} name - 编码后的 cookie 名称
+ * @param {string} encodedValue - 编码后的 cookie 值
+ * @param {string[]} [existingNames=[]] - 当前已存在的 cookie 名称
+ * @param {Object} [limits] - 限制配置
+ * @param {number} [limits.maxSize=COOKIE_MAX_SIZE] - 单个 cookie 的最大字节数
+ * @param {number} [limits.maxCount=COOKIE_MAX_COUNT] - cookie 的最大数量
+ * @returns {CookieLimitError|null} 超出限制时返回错误对象，否则返回 null
+ */
+export function checkCookieLimits(
+  name: string,
+  encodedValue: string,
+  existingNames: string[] = [],
+  limits: { maxSize?: number; maxCount?: number } = {}
+): CookieLimitError | null {
+  const { maxSize = COOKIE_MAX_SIZE, maxCount = COOKIE_MAX_COUNT } = limits;
+
+  // 编码后的名称和值只包含 ASCII 字符，长度即字节数
+  const size = name.length + 1 + encodedValue.length;
+  if (size > maxSize) {
+    return new CookieLimitError(name, 'size', size, maxSize);
+  }
+
+  if (!existingNames.includes(name) && existingNames.length + 1 > maxCount) {
+    return new CookieLimitError(name, 'count', existingNames.length + 1, maxCount);
+  }
+
+  return null;
+}
+
+// RFC 6265 中 cookie-name 允许的 token 字符
+const COOKIE_NAME_REGEXP = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// cookie-value 允许的字符（不含引号包裹）
+const COOKIE_VALUE_REGEXP = /^[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*$/;
+// Domain 与 Path 属性中不能出现控制字符和分号
+const COOKIE_ATTRIBUTE_REGEXP = /^[^\u0000-\u001F\u007F;]*$/;
+
+/**
+ * 解码 cookie 值，解码失败时返回原值
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 将属性值规范化为首字母大写的形式，如 'lax' -> 'Lax'
+ */
+function normalizeEnum<T extends string>(value: string, allowed: T[]): T | undefined {
+  const lower = value.toLowerCase();
+  return allowed.find(item => item.toLowerCase() === lower);
+}
+
+/**
+ * @jsonDoc
+ * @description 编码 cookie 名称，在 encodeURIComponent 的基础上继续编码 token 语法不允许的 ( 和 )，结果可以直接传给 serializeCookie
+ * @param {string} name - 原始 cookie 名称
+ * @returns {string} 编码后的 cookie 名称
+ */
+export function encodeCookieName(name: string): string {
+  return encodeURIComponent(name).replace(/[()]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase());
+}
+
+/**
+ * @jsonDoc
+ * @description 将 cookie 序列化为 Set-Cookie 头或 document.cookie 可用的字符串
+ * @param {string} name - cookie 名称，需要符合 token 语法，包含其他字符时可先使用 encodeCookieName 编码
+ * @param {string} value - cookie 值
+ * @param {CookieSerializeOptions} [options] - 序列化选项
+ * @returns {string} 序列化后的字符串
+ */
+export function serializeCookie(name: string, value: string, options: CookieSerializeOptions = {}): string {
+  const { expires, maxAge, domain, path, secure, httpOnly, sameSite, partitioned, priority } = options;
+  const encode = options.encode || encodeURIComponent;
+
+  if (!COOKIE_NAME_REGEXP.test(name)) {
+    throw new Error(`无效的 cookie 名称: ${name}`);
+  }
+
+  const encodedValue = encode(value);
+  if (!COOKIE_VALUE_REGEXP.test(encodedValue)) {
+    throw new Error(`无效的 cookie 值: ${value}`);
+  }
+
+  let cookieString = `${name}=${encodedValue}`;
+
+  if (maxAge !== undefined) {
+    if (!Number.isFinite(maxAge)) {
+      throw new Error(`无效的 Max-Age: ${maxAge}`);
+    }
+    cookieString += `; Max-Age=${Math.floor(maxAge)}`;
+  }
+
+  if (expires !== undefined) {
+    if (isNaN(expires.getTime())) {
+      throw new Error('无效的 Expires 日期');
+    }
+    cookieString += `; Expires=${expires.toUTCString()}`;
+  }
+
+  if (domain) {
+    if (!COOKIE_ATTRIBUTE_REGEXP.test(domain)) {
+      throw new Error(`无效的 Domain: ${domain}`);
+    }
+    cookieString += `; Domain=${domain}`;
+  }
+
+  if (path) {
+    if (!COOKIE_ATTRIBUTE_REGEXP.test(path)) {
+      throw new Error(`无效的 Path: ${path}`);
+    }
+    cookieString += `; Path=${path}`;
+  }
+
+  if (secure) {
+    cookieString += '; Secure';
+  }
+
+  if (httpOnly) {
+    cookieString += '; HttpOnly';
+  }
+
+  if (sameSite) {
+    cookieString += `; SameSite=${sameSite}`;
+  }
+
+  if (partitioned) {
+    cookieString += '; Partitioned';
+  }
+
+  if (priority) {
+    cookieString += `; Priority=${priority}`;
+  }
+
+  return cookieString;
+}
+
+/**
+ * @jsonDoc
+ * @description 解析 Cookie 请求头或 document.cookie 字符串，同名 cookie 以第一个为准
+ * @param {string} header - Cookie 字符串，如 'a=1; b=2'
+ * @param {Object} [options] - 配置选项
+ * @param {Function} [options.decode] - 值的解码函数，默认为 decodeURIComponent（解码失败时保留原值）
+ * @returns {Record<string, string>} cookie 名称到值的映射
+ */
+export function parseCookie(
+  header: string,
+  options: { decode?: (value: string) => string } = {}
+): Record<string, string> {
+  const decode = options.decode || safeDecode;
+  const cookies: Record<string, string> = {};
+
+  header.split(';').forEach(pair => {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex < 0) return;
+
+    const name = pair.substring(0, separatorIndex).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) return;
+
+    let value = pair.substring(separatorIndex + 1).trim();
+    // 去掉值两侧的双引号
+    if (value.length >= 2 && value.charAt(0) === '"' && value.charAt(value.length - 1) === '"') {
+      value = value.slice(1, -1);
+    }
+    cookies[name] = decode(value);
+  });
+
+  return cookies;
+}
+
+/**
+ * @jsonDoc
+ * @description 解析单个 Set-Cookie 响应头
+ * @param {string} header - Set-Cookie 头的值
+ * @param {Object} [options] - 配置选项
+ * @param {Function} [options.decode] - 值的解码函数，默认为 decodeURIComponent（解码失败时保留原值）
+ * @returns {SetCookie|null} 解析结果，格式无效时返回 null
+ */
+export function parseSetCookie(
+  header: string,
+  options: { decode?: (value: string) => string } = {}
+): SetCookie | null {
+  const decode = options.decode || safeDecode;
+  const [pair, ...attributes] = header.split(';');
+  const separatorIndex = pair.indexOf('=');
+  if (separatorIndex <= 0) return null;
+
+  const name = pair.substring(0, separatorIndex).trim();
+  if (!name) return null;
+
+  let value = pair.substring(separatorIndex + 1).trim();
+  if (value.length >= 2 && value.charAt(0) === '"' && value.charAt(value.length - 1) === '"') {
+    value = value.slice(1, -1);
+  }
+
+  const cookie: SetCookie = {
+    name,
+    value: decode(value),
+    secure: false,
+    httpOnly: false,
+    partitioned: false
+  };
+
+  attributes.forEach(attribute => {
+    const index = attribute.indexOf('=');
+    const key = (index < 0 ? attribute : attribute.substring(0, index)).trim().toLowerCase();
+    const attributeValue = index < 0 ? '' : attribute.substring(index + 1).trim();
+
+    switch (key) {
+      case 'expires': {
+        const date = new Date(attributeValue);
+        if (!isNaN(date.getTime())) {
+          cookie.expires = date;
+        }
+        break;
+      }
+      case 'max-age': {
+        // RFC 6265: Max-Age 必须是可带负号的整数
+        if (/^-?\d+$/.test(attributeValue)) {
+          cookie.maxAge = parseInt(attributeValue, 10);
+        }
+        break;
+      }
+      case 'domain':
+        if (attributeValue) {
+          // 忽略开头的点，与浏览器行为一致
+          cookie.domain = attributeValue.replace(/^\./, '').toLowerCase();
+        }
+        break;
+      case 'path':
+        if (attributeValue.charAt(0) === '/') {
+          cookie.path = attributeValue;
+        }
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = normalizeEnum(attributeValue, ['Strict', 'Lax', 'None']);
+        break;
+      case 'partitioned':
+        cookie.partitioned = true;
+        break;
+      case 'priority':
+        cookie.priority = normalizeEnum(attributeValue, ['Low', 'Medium', 'High']);
+        break;
+    }
+  });
+
+  return cookie;
+}
+
+/**
+ * @jsonDoc
+ * @description 拆分被逗号合并的多个 Set-Cookie 头（会正确跳过 Expires 日期中的逗号）
+ * @param {string} header - 合并后的 Set-Cookie 头
+ * @returns {string[]} 拆分后的 Set-Cookie 头数组
+ */
+export function splitSetCookieHeader(header: string): string[] {
+  const result: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < header.length; i++) {
+    if (header.charAt(i) !== ',') continue;
+
+    // 逗号之后是 "name=" 形式（等号前没有分号和空格以外的分隔符）时才是新的 cookie
+    const rest = header.substring(i + 1);
+    const match = /^\s*([^=;,\s]+)=/.exec(rest);
+    if (match && COOKIE_NAME_REGEXP.test(match[1])) {
+      result.push(header.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = header.substring(start).trim();
+  if (last) {
+    result.push(last);
+  }
+  return result.filter(Boolean);
+}
+
+/**
+ * @jsonDoc
+ * @description 解析一个或多个 Set-Cookie 头，适用于 fetch 响应或 Node.js 的 res.headers['set-cookie']
+ * @param {string|string[]} headers - Set-Cookie 头，字符串时会按逗号拆分
+ * @param {Object} [options] - 配置选项
+ * @param {Function} [options.decode] - 值的解码函数
+ * @returns {SetCookie[]} 解析结果数组，格式无效的头会被忽略
+ */
+export function parseSetCookieHeaders(
+  headers: string | string[],
+  options: { decode?: (value: string) => string } = {}
+): SetCookie[] {
+  const list = Array.isArray(headers) ? headers : splitSetCookieHeader(headers);
+  return list
+    .map(header => parseSetCookie(header, options))
+    .filter((cookie): cookie is SetCookie => cookie !== null);
+}
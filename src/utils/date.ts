@@ -1,3 +1,5 @@
+import { DateLocale, LocaleOptions, RelativeTimeUnit, getDateLocale } from './dateLocale';
+
 /**
  * @jsonDoc
  * @description 获取当前日期时间的时间戳
@@ -7,115 +9,826 @@ export function getCurrentTimestamp(): number {
   return Date.now();
 }
 
+/**
+ * @jsonDoc
+ * @description 时区相关选项
+ */
+export interface TimeZoneOptions {
+  // IANA 时区名称，如 'Asia/Shanghai'、'America/New_York'，不传则使用本地时区
+  timeZone?: string;
+  // 本地时间落在夏令时跳过的时间段或重复的时间段时的处理方式，默认为 'compatible'
+  // 'compatible'：跳过时取之后的时间，重复时取较早的时间；'earlier'/'later'：取较早/较晚的时间；'reject'：抛出错误
+  disambiguation?: 'compatible' | 'earlier' | 'later' | 'reject';
+}
+
+/**
+ * 日期的各个字段（墙上时间），month 为 1-12
+ */
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// 按时区缓存的格式化器，创建 Intl.DateTimeFormat 的开销较大
+const zoneFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * 获取指定时区的格式化器，时区无效时抛出错误
+ */
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!zoneFormatters[timeZone]) {
+    try {
+      zoneFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        era: 'short',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+    } catch {
+      throw new Error(`无效的时区: ${timeZone}`);
+    }
+  }
+  return zoneFormatters[timeZone];
+}
+
+/**
+ * 获取日期在指定时区（不传则为本地时区）的各个字段
+ */
+function getDateParts(date: Date, timeZone?: string): DateTimeParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds()
+    };
+  }
+
+  // 无效日期无法交给 Intl 格式化
+  if (isNaN(date.getTime())) {
+    return { year: NaN, month: NaN, day: NaN, hour: NaN, minute: NaN, second: NaN, millisecond: NaN };
+  }
+
+  const values: Record<string, string> = {};
+  const formatted: Array<{ type: string; value: string }> = (getZoneFormatter(timeZone) as any).formatToParts(date);
+  formatted.forEach(part => {
+    values[part.type] = part.value;
+  });
+
+  const year = parseInt(values.year, 10);
+  return {
+    // 公元前 1 年对应第 0 年
+    year: values.era === 'BC' || values.era === 'B' ? 1 - year : year,
+    month: parseInt(values.month, 10),
+    day: parseInt(values.day, 10),
+    // 部分浏览器在 hour12 为 false 时会把午夜输出为 24
+    hour: parseInt(values.hour, 10) % 24,
+    minute: parseInt(values.minute, 10),
+    second: parseInt(values.second, 10),
+    millisecond: date.getUTCMilliseconds()
+  };
+}
+
+/**
+ * 把各个字段当作 UTC 时间转换为时间戳，超出范围的字段会自动进位
+ */
+function partsToUTC(parts: DateTimeParts): number {
+  const date = new Date(Date.UTC(2000, 0, 1, parts.hour, parts.minute, parts.second, parts.millisecond));
+  // 直接传给 Date.UTC 时 0-99 年会被当作 1900-1999 年
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  return date.getTime();
+}
+
+/**
+ * 把超出范围的字段进位，如 13 月变为下一年的 1 月
+ */
+function normalizeParts(parts: DateTimeParts): DateTimeParts {
+  return getDateParts(new Date(partsToUTC(parts)), 'UTC');
+}
+
+/**
+ * 获取日期在指定时区相对 UTC 的偏移（分钟），东八区为 480
+ */
+function getOffsetMinutes(date: Date, timeZone?: string): number {
+  if (!timeZone) {
+    return -date.getTimezoneOffset();
+  }
+  return (partsToUTC(getDateParts(date, timeZone)) - date.getTime()) / MINUTE_MS;
+}
+
+/**
+ * 把指定时区的墙上时间转换为日期，处理夏令时跳过和重复的时间段
+ */
+function partsToDate(parts: DateTimeParts, options: TimeZoneOptions = {}): Date {
+  const { timeZone, disambiguation = 'compatible' } = options;
+  const wallTime = partsToUTC(parts);
+  if (isNaN(wallTime)) {
+    return new Date(NaN);
+  }
+
+  // 一天内最多发生一次偏移变化，前后一天的偏移即为可能的两个偏移
+  const offsetBefore = getOffsetMinutes(new Date(wallTime - DAY_MS), timeZone);
+  const offsetAfter = getOffsetMinutes(new Date(wallTime + DAY_MS), timeZone);
+  const candidates = [wallTime - offsetBefore * MINUTE_MS, wallTime - offsetAfter * MINUTE_MS]
+    .filter((time, index, list) => list.indexOf(time) === index)
+    .filter(time => partsToUTC(getDateParts(new Date(time), timeZone)) === wallTime)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 1) {
+    if (disambiguation === 'reject') {
+      throw new Error(`时间 ${formatParts(parts)} 在时区 ${timeZone || '本地时区'} 中重复出现`);
+    }
+    return new Date(disambiguation === 'later' ? candidates[1] : candidates[0]);
+  }
+  if (candidates.length === 1) {
+    return new Date(candidates[0]);
+  }
+
+  // 时间落在夏令时跳过的时间段中
+  if (disambiguation === 'reject') {
+    throw new Error(`时间 ${formatParts(parts)} 在时区 ${timeZone || '本地时区'} 中不存在`);
+  }
+  // 用变化前的偏移换算会得到变化后的时间，反之得到变化前的时间
+  return new Date(wallTime - (disambiguation === 'earlier' ? offsetAfter : offsetBefore) * MINUTE_MS);
+}
+
+/**
+ * 把各个字段格式化为 YYYY-MM-DD HH:mm:ss，用于错误信息
+ */
+function formatParts(parts: DateTimeParts): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`;
+}
+
+/**
+ * 把偏移分钟数格式化为 +08:00 或 +0800
+ */
+function formatOffset(offset: number, separator: string): string {
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(Math.round(offset));
+  const hours = Math.floor(absolute / 60).toString().padStart(2, '0');
+  const minutes = (absolute % 60).toString().padStart(2, '0');
+  return `${sign}${hours}${separator}${minutes}`;
+}
+
+/**
+ * @jsonDoc
+ * @description 检查时区名称是否为有效的 IANA 时区
+ * @param {string} timeZone - 时区名称
+ * @returns {boolean} 如果有效则返回 true，否则返回 false
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 获取日期在指定时区相对 UTC 的偏移
+ * @param {Date} date - 日期对象
+ * @param {string} [timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {number} 偏移分钟数，如东八区为 480，纽约夏令时为 -240
+ */
+export function getTimeZoneOffset(date: Date, timeZone?: string): number {
+  return getOffsetMinutes(date, timeZone);
+}
+
+/**
+ * 格式化时可用的数据
+ */
+interface FormatContext {
+  date: Date;
+  parts: DateTimeParts;
+  offset: number;
+  locale: DateLocale;
+}
+
+/**
+ * @jsonDoc
+ * @description 格式化日期的选项
+ */
+export interface DateFormatOptions extends TimeZoneOptions, LocaleOptions {}
+
+/**
+ * 获取各个字段对应的星期（0-6，0 表示星期日）
+ */
+function getPartsWeekday(parts: DateTimeParts): number {
+  return new Date(partsToUTC(parts)).getUTCDay();
+}
+
+/**
+ * 获取各个字段对应的一年中的第几天（1-366）
+ */
+function getPartsDayOfYear(parts: DateTimeParts): number {
+  const dayOnly = { ...parts, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  return Math.round((partsToUTC(dayOnly) - partsToUTC({ ...dayOnly, month: 1, day: 1 })) / DAY_MS) + 1;
+}
+
+/**
+ * 获取各个字段对应的 ISO 周数和周年。每周从星期一开始，包含星期四的那一年即为周年
+ */
+function getPartsISOWeek(parts: DateTimeParts): { weekYear: number; week: number } {
+  const weekday = getPartsWeekday(parts) || 7;
+  const thursday = normalizeParts({ ...parts, day: parts.day + 4 - weekday, hour: 0, minute: 0, second: 0, millisecond: 0 });
+  return { weekYear: thursday.year, week: Math.ceil(getPartsDayOfYear(thursday) / 7) };
+}
+
+// 格式化标记，匹配时优先匹配较长的标记
+const FORMAT_TOKENS: Record<string, (context: FormatContext) => string> = {
+  YYYY: ({ parts }) => parts.year.toString().padStart(4, '0'),
+  MMMM: ({ parts, locale }) => locale.months[parts.month - 1],
+  MMM: ({ parts, locale }) => locale.monthsShort[parts.month - 1],
+  MM: ({ parts }) => parts.month.toString().padStart(2, '0'),
+  DDDD: ({ parts }) => getPartsDayOfYear(parts).toString().padStart(3, '0'),
+  DDD: ({ parts }) => getPartsDayOfYear(parts).toString(),
+  DD: ({ parts }) => parts.day.toString().padStart(2, '0'),
+  Q: ({ parts }) => Math.ceil(parts.month / 3).toString(),
+  GGGG: ({ parts }) => getPartsISOWeek(parts).weekYear.toString().padStart(4, '0'),
+  WW: ({ parts }) => getPartsISOWeek(parts).week.toString().padStart(2, '0'),
+  W: ({ parts }) => getPartsISOWeek(parts).week.toString(),
+  Do: ({ parts, locale }) => locale.ordinal(parts.day),
+  dddd: ({ parts, locale }) => locale.weekdays[getPartsWeekday(parts)],
+  ddd: ({ parts, locale }) => locale.weekdaysShort[getPartsWeekday(parts)],
+  HH: ({ parts }) => parts.hour.toString().padStart(2, '0'),
+  mm: ({ parts }) => parts.minute.toString().padStart(2, '0'),
+  ss: ({ parts }) => parts.second.toString().padStart(2, '0'),
+  SSS: ({ parts }) => parts.millisecond.toString().padStart(3, '0'),
+  Z: ({ offset }) => formatOffset(offset, ':'),
+  ZZ: ({ offset }) => formatOffset(offset, ''),
+  NN: ({ parts, locale }) => locale.eras[parts.year > 0 ? 1 : 0]
+};
+
+let formatTokenRegExp: RegExp | null = null;
+
+/**
+ * 获取匹配格式化标记的正则，方括号中的内容原样输出
+ */
+function getFormatTokenRegExp(): RegExp {
+  if (!formatTokenRegExp) {
+    const tokens = Object.keys(FORMAT_TOKENS).sort((a, b) => b.length - a.length);
+    formatTokenRegExp = new RegExp(`\\[([^\\]]*)]|${tokens.join('|')}`, 'g');
+  }
+  return formatTokenRegExp;
+}
+
 /**
  * @jsonDoc
  * @description 将日期格式化为指定格式的字符串
  * @param {Date} date - 要格式化的日期对象
- * @param {string} format - 格式模板，支持 YYYY(年), MM(月), DD(日), HH(时), mm(分), ss(秒)
+ * @param {string} format - 格式模板，支持 YYYY(年), MM(月), MMM(月份简称), MMMM(月份名称), DD(日), Do(序数日), DDD(一年中的第几天), DDDD(补零的 DDD), Q(季度), W(ISO 周数), WW(补零的 W), GGGG(ISO 周年), ddd(星期简称), dddd(星期名称), HH(时), mm(分), ss(秒), SSS(毫秒), Z(+08:00), ZZ(+0800), NN(纪元)，方括号中的内容原样输出。
+ * 注意：Q、W、Z 是单个字母的标记，模板中任何位置出现的这些字母都会被替换，之前原样输出的字母（如 'YYYY-MM-DD Week'）需要写在方括号中（'YYYY-MM-DD [Week]'）
+ * @param {DateFormatOptions} [options] - 格式化选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @param {string|DateLocale} [options.locale] - 语言标签或语言包，不传则使用全局默认语言
  * @returns {string} 格式化后的日期字符串
  */
-export function formatDateTime(date: Date, format: string = 'YYYY-MM-DD HH:mm:ss'): string {
-  const year = date.getFullYear().toString();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  const hours = date.getHours().toString().padStart(2, '0');
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  const seconds = date.getSeconds().toString().padStart(2, '0');
+export function formatDateTime(
+  date: Date,
+  format: string = 'YYYY-MM-DD HH:mm:ss',
+  options: DateFormatOptions = {}
+): string {
+  const context: FormatContext = {
+    date,
+    parts: getDateParts(date, options.timeZone),
+    offset: getOffsetMinutes(date, options.timeZone),
+    locale: getDateLocale(options.locale)
+  };
+
+  return format.replace(getFormatTokenRegExp(), (token: string, literal?: string) =>
+    literal !== undefined ? literal : FORMAT_TOKENS[token](context)
+  );
+}
+
+// 不带偏移的 ISO 8601 本地时间，如 2024-01-05T14:03:09.123
+const ISO_LOCAL_REGEXP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
 
-  return format
-    .replace('YYYY', year)
-    .replace('MM', month)
-    .replace('DD', day)
-    .replace('HH', hours)
-    .replace('mm', minutes)
-    .replace('ss', seconds);
+/**
+ * 解析 Z、+08:00 或 +0800 格式的偏移，返回分钟数
+ */
+function parseOffset(value: string): number | null {
+  const match = /^(?:Z|([+-])(\d{2}):?(\d{2}))/.exec(value);
+  if (!match) return null;
+  if (!match[1]) return 0;
+  const offset = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -offset : offset;
+}
+
+/**
+ * @jsonDoc
+ * @description 解析日期字符串的选项
+ */
+export interface ParseDateOptions extends TimeZoneOptions, LocaleOptions {
+  // 严格模式：字符串必须与格式完全一致，不存在的日期（如 2 月 30 日）会抛出错误而不是顺延
+  strict?: boolean;
+}
+
+/**
+ * 解析过程中收集到的字段
+ */
+interface ParsedFields extends Partial<DateTimeParts> {
+  meridiem?: 'am' | 'pm';
+  // 0 表示公元前，1 表示公元
+  era?: number;
+  weekday?: number;
+  offset?: number;
+}
+
+/**
+ * 解析标记的处理方式，pattern 为匹配输入的正则片段
+ */
+interface ParseToken {
+  pattern: (strict: boolean, locale: DateLocale) => string;
+  set: (value: string, fields: ParsedFields, locale: DateLocale) => void;
+}
+
+/**
+ * 转义正则中的特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 生成匹配名称列表的正则片段，较长的名称优先匹配
+ */
+function namesPattern(names: string[]): string {
+  return names.slice().sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+/**
+ * 在名称列表中查找名称（忽略大小写），返回下标
+ */
+function findName(value: string, names: string[]): number {
+  const lower = value.toLowerCase();
+  return names.findIndex(name => name.toLowerCase() === lower);
+}
+
+/**
+ * 数字标记，strictWidth 为严格模式下要求的位数
+ */
+function numberToken(strictWidth: number, looseWidth: number, set: (value: number, fields: ParsedFields) => void): ParseToken {
+  return {
+    pattern: strict => (strict ? `\\d{${strictWidth}}` : `\\d{1,${looseWidth}}`),
+    set: (value, fields) => set(parseInt(value, 10), fields)
+  };
+}
+
+/**
+ * 名称标记，严格模式下只匹配语言包中的 key 名称，宽松模式下同时匹配 alternative 名称（如完整名称和缩写）以及英文名称
+ */
+function nameToken(
+  key: 'months' | 'monthsShort' | 'weekdays' | 'weekdaysShort',
+  alternative: 'months' | 'monthsShort' | 'weekdays' | 'weekdaysShort',
+  set: (index: number, fields: ParsedFields) => void
+): ParseToken {
+  const english = getDateLocale('en');
+  const lists = (locale: DateLocale) => [locale[key], locale[alternative], english[key], english[alternative]];
+
+  return {
+    pattern: (strict, locale) => namesPattern(strict ? locale[key] : ([] as string[]).concat(...lists(locale))),
+    set: (value, fields, locale) => {
+      for (const names of lists(locale)) {
+        const index = findName(value, names);
+        if (index !== -1) {
+          set(index, fields);
+          return;
+        }
+      }
+    }
+  };
+}
+
+/**
+ * 获取语言包中序数的后缀，如英文的 st、nd、rd、th
+ */
+function getOrdinalSuffixes(locale: DateLocale): string[] {
+  const suffixes: string[] = [];
+  for (let day = 1; day <= 31; day++) {
+    const suffix = locale.ordinal(day).replace(String(day), '');
+    if (suffix && !suffixes.includes(suffix)) suffixes.push(suffix);
+  }
+  return suffixes;
+}
+
+/**
+ * 毫秒标记，数字表示秒的小数部分
+ */
+function fractionToken(width: number): ParseToken {
+  return {
+    pattern: strict => (strict ? `\\d{${width}}` : '\\d{1,3}'),
+    set: (value, fields) => {
+      fields.millisecond = parseInt(value.padEnd(3, '0'), 10);
+    }
+  };
+}
+
+/**
+ * 偏移标记，separator 为严格模式下时和分之间的分隔符
+ */
+function offsetToken(separator: string): ParseToken {
+  return {
+    pattern: strict => `Z|[+-]\\d{2}${strict ? separator : ':?'}\\d{2}`,
+    set: (value, fields) => {
+      fields.offset = parseOffset(value)!;
+    }
+  };
+}
+
+// 解析标记，匹配时优先匹配较长的标记
+const PARSE_TOKENS: Record<string, ParseToken> = {
+  YYYY: {
+    pattern: strict => (strict ? '\\d{4}' : '\\d{1,4}'),
+    set: (value, fields) => {
+      fields.year = parseInt(value, 10);
+    }
+  },
+  // 两位年份，69-99 表示 1969-1999，00-68 表示 2000-2068
+  YY: numberToken(2, 2, (value, fields) => {
+    fields.year = value + (value > 68 ? 1900 : 2000);
+  }),
+  MMMM: nameToken('months', 'monthsShort', (index, fields) => { fields.month = index + 1; }),
+  MMM: nameToken('monthsShort', 'months', (index, fields) => { fields.month = index + 1; }),
+  MM: numberToken(2, 2, (value, fields) => { fields.month = value; }),
+  M: numberToken(1, 2, (value, fields) => { fields.month = value; }),
+  DD: numberToken(2, 2, (value, fields) => { fields.day = value; }),
+  D: numberToken(1, 2, (value, fields) => { fields.day = value; }),
+  Do: {
+    pattern: (strict, locale) => {
+      const suffixes = namesPattern(getOrdinalSuffixes(locale));
+      return suffixes ? `\\d{1,2}(?:${suffixes})${strict ? '' : '?'}` : '\\d{1,2}';
+    },
+    set: (value, fields) => {
+      fields.day = parseInt(value, 10);
+    }
+  },
+  dddd: nameToken('weekdays', 'weekdaysShort', (index, fields) => { fields.weekday = index; }),
+  ddd: nameToken('weekdaysShort', 'weekdays', (index, fields) => { fields.weekday = index; }),
+  HH: numberToken(2, 2, (value, fields) => { fields.hour = value; }),
+  H: numberToken(1, 2, (value, fields) => { fields.hour = value; }),
+  hh: numberToken(2, 2, (value, fields) => { fields.hour = value; }),
+  h: numberToken(1, 2, (value, fields) => { fields.hour = value; }),
+  A: {
+    pattern: (_, locale) => `${namesPattern(locale.meridiem)}|[AaPp]\\.?[Mm]\\.?`,
+    set: (value, fields, locale) => {
+      const index = findName(value, locale.meridiem);
+      if (index !== -1) {
+        fields.meridiem = index === 1 ? 'pm' : 'am';
+        return;
+      }
+      fields.meridiem = value[0].toLowerCase() === 'p' ? 'pm' : 'am';
+    }
+  },
+  mm: numberToken(2, 2, (value, fields) => { fields.minute = value; }),
+  m: numberToken(1, 2, (value, fields) => { fields.minute = value; }),
+  ss: numberToken(2, 2, (value, fields) => { fields.second = value; }),
+  s: numberToken(1, 2, (value, fields) => { fields.second = value; }),
+  SSS: fractionToken(3),
+  SS: fractionToken(2),
+  S: fractionToken(1),
+  ZZ: offsetToken(''),
+  Z: offsetToken(':'),
+  NN: {
+    pattern: (strict, locale) => namesPattern(strict ? locale.eras : locale.eras.concat(getDateLocale('en').eras)),
+    set: (value, fields, locale) => {
+      const index = findName(value, locale.eras);
+      fields.era = index !== -1 ? index : findName(value, getDateLocale('en').eras);
+    }
+  }
+};
+PARSE_TOKENS.a = PARSE_TOKENS.A;
+
+let parseTokenRegExp: RegExp | null = null;
+
+/**
+ * 获取匹配解析标记的正则，方括号中的内容按原样匹配
+ */
+function getParseTokenRegExp(): RegExp {
+  if (!parseTokenRegExp) {
+    const tokens = Object.keys(PARSE_TOKENS).sort((a, b) => b.length - a.length);
+    parseTokenRegExp = new RegExp(`\\[([^\\]]*)]|${tokens.join('|')}`, 'g');
+  }
+  return parseTokenRegExp;
+}
+
+/**
+ * 把格式模板拆分为标记和普通文本
+ */
+function tokenizeFormat(format: string): Array<{ token?: string; literal?: string }> {
+  const segments: Array<{ token?: string; literal?: string }> = [];
+  const regexp = getParseTokenRegExp();
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  regexp.lastIndex = 0;
+  while ((match = regexp.exec(format)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ literal: format.slice(lastIndex, match.index) });
+    }
+    segments.push(match[1] !== undefined ? { literal: match[1] } : { token: match[0] });
+    lastIndex = regexp.lastIndex;
+  }
+  if (lastIndex < format.length) {
+    segments.push({ literal: format.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * 按格式模板匹配字符串，无法匹配时返回 null
+ */
+function matchFormat(input: string, format: string, strict: boolean, locale: DateLocale): ParsedFields | null {
+  const fields: ParsedFields = {};
+  let position = 0;
+
+  for (const segment of tokenizeFormat(format)) {
+    if (segment.literal !== undefined) {
+      if (input.startsWith(segment.literal, position)) {
+        position += segment.literal.length;
+        continue;
+      }
+      // 宽松模式下分隔符不必完全一致，如 2024/01/05 可以按 YYYY-MM-DD 解析
+      if (strict || /[\da-zA-Z]/.test(segment.literal)) return null;
+      const separator = /^[^\da-zA-Z]*/.exec(input.slice(position))![0];
+      position += separator.length;
+      continue;
+    }
+
+    const handler = PARSE_TOKENS[segment.token!];
+    const match = new RegExp(`^(?:${handler.pattern(strict, locale)})`, 'i').exec(input.slice(position));
+    if (!match) return null;
+    handler.set(match[0], fields, locale);
+    position += match[0].length;
+  }
+
+  if (strict && position !== input.length) return null;
+  return fields;
+}
+
+/**
+ * 检查解析出的字段是否是真实存在的日期
+ */
+function isValidParts(parts: DateTimeParts): boolean {
+  return parts.month >= 1 && parts.month <= 12
+    && parts.day >= 1 && parts.day <= getDaysInMonth(parts.year, parts.month)
+    && parts.hour >= 0 && parts.hour <= 23
+    && parts.minute >= 0 && parts.minute <= 59
+    && parts.second >= 0 && parts.second <= 59;
 }
 
 /**
  * @jsonDoc
  * @description 将字符串解析为日期对象
  * @param {string} dateString - 日期字符串
- * @param {string} [format] - 日期字符串的格式（可选，如果提供则按照指定格式解析）
- * @returns {Date} 解析后的日期对象
+ * @param {string} [format] - 日期字符串的格式（可选，如果提供则按照指定格式解析）。支持 YYYY, YY, M, MM, MMM(月份简称), MMMM(月份名称), D, DD, Do(序数日), ddd(星期简称), dddd(星期名称), H, HH, h, hh(12 小时制), A/a(上下午), m, mm, s, ss, S, SS, SSS, Z(+08:00), ZZ(+0800), NN(纪元)，方括号中的内容按原样匹配。宽松模式下名称同时接受英文
+ * @param {ParseDateOptions} [options] - 解析选项，字符串中带有偏移时以偏移为准
+ * @param {string} [options.timeZone] - 字符串所在的 IANA 时区，不传则使用本地时区
+ * @param {string} [options.disambiguation='compatible'] - 时间落在夏令时跳过或重复的时间段时的处理方式
+ * @param {boolean} [options.strict=false] - 严格模式，字符串与格式不一致或日期不存在时抛出错误
+ * @param {string|DateLocale} [options.locale] - 名称所用的语言标签或语言包，不传则使用全局默认语言
+ * @returns {Date} 解析后的日期对象，宽松模式下无法解析时返回无效日期
+ * @throws {Error} 严格模式下字符串与格式不一致或日期不存在时抛出
  */
-export function parseDate(dateString: string, format?: string): Date {
+export function parseDate(dateString: string, format?: string, options: ParseDateOptions = {}): Date {
   if (!format) {
-    return new Date(dateString);
+    // 只有不带偏移的 ISO 本地时间需要按时区换算
+    const isoMatch = options.timeZone ? ISO_LOCAL_REGEXP.exec(dateString.trim()) : null;
+    if (!isoMatch) {
+      return new Date(dateString);
+    }
+    return partsToDate({
+      year: parseInt(isoMatch[1], 10),
+      month: parseInt(isoMatch[2], 10),
+      day: parseInt(isoMatch[3], 10),
+      hour: isoMatch[4] ? parseInt(isoMatch[4], 10) : 0,
+      minute: isoMatch[5] ? parseInt(isoMatch[5], 10) : 0,
+      second: isoMatch[6] ? parseInt(isoMatch[6], 10) : 0,
+      millisecond: isoMatch[7] ? parseInt(isoMatch[7].padEnd(3, '0'), 10) : 0
+    }, options);
   }
 
-  // 简单的格式解析实现
-  const now = new Date();
-  let year = now.getFullYear();
-  let month = now.getMonth();
-  let day = now.getDate();
-  let hours = 0;
-  let minutes = 0;
-  let seconds = 0;
-
-  // 查找年份
-  const yearIndex = format.indexOf('YYYY');
-  if (yearIndex !== -1) {
-    year = parseInt(dateString.substring(yearIndex, yearIndex + 4), 10);
+  const { strict = false } = options;
+  const fields = matchFormat(strict ? dateString : dateString.trim(), format, strict, getDateLocale(options.locale));
+  if (!fields) {
+    if (strict) {
+      throw new Error(`日期字符串 ${dateString} 与格式 ${format} 不匹配`);
+    }
+    return new Date(NaN);
   }
 
-  // 查找月份
-  const monthIndex = format.indexOf('MM');
-  if (monthIndex !== -1) {
-    month = parseInt(dateString.substring(monthIndex, monthIndex + 2), 10) - 1;
-  }
+  // 未出现的年月日使用指定时区的当前日期，时间默认为 0
+  const now = getDateParts(new Date(), options.timeZone);
+  const parts: DateTimeParts = {
+    year: fields.year ?? now.year,
+    month: fields.month ?? now.month,
+    day: fields.day ?? now.day,
+    hour: fields.hour ?? 0,
+    minute: fields.minute ?? 0,
+    second: fields.second ?? 0,
+    millisecond: fields.millisecond ?? 0
+  };
 
-  // 查找日期
-  const dayIndex = format.indexOf('DD');
-  if (dayIndex !== -1) {
-    day = parseInt(dateString.substring(dayIndex, dayIndex + 2), 10);
+  // 公元前 1 年对应第 0 年
+  if (fields.era === 0) {
+    parts.year = 1 - parts.year;
   }
 
-  // 查找小时
-  const hoursIndex = format.indexOf('HH');
-  if (hoursIndex !== -1) {
-    hours = parseInt(dateString.substring(hoursIndex, hoursIndex + 2), 10);
+  // 12 小时制转换为 24 小时制
+  if (fields.meridiem) {
+    if (strict && (parts.hour < 1 || parts.hour > 12)) {
+      throw new Error(`日期字符串 ${dateString} 中的小时超出 12 小时制范围`);
+    }
+    if (fields.meridiem === 'pm' && parts.hour < 12) parts.hour += 12;
+    if (fields.meridiem === 'am' && parts.hour === 12) parts.hour = 0;
   }
 
-  // 查找分钟
-  const minutesIndex = format.indexOf('mm');
-  if (minutesIndex !== -1) {
-    minutes = parseInt(dateString.substring(minutesIndex, minutesIndex + 2), 10);
+  if (strict && !isValidParts(parts)) {
+    throw new Error(`日期 ${dateString} 不存在`);
   }
 
-  // 查找秒
-  const secondsIndex = format.indexOf('ss');
-  if (secondsIndex !== -1) {
-    seconds = parseInt(dateString.substring(secondsIndex, secondsIndex + 2), 10);
+  const date = fields.offset !== undefined
+    ? new Date(partsToUTC(parts) - fields.offset * MINUTE_MS)
+    : partsToDate(parts, options);
+
+  // 严格模式下校验星期与日期是否一致
+  if (strict && fields.weekday !== undefined) {
+    const weekday = new Date(partsToUTC(parts)).getUTCDay();
+    if (weekday !== fields.weekday) {
+      throw new Error(`日期 ${dateString} 中的星期与日期不一致`);
+    }
   }
 
-  return new Date(year, month, day, hours, minutes, seconds);
+  return date;
+}
+
+/**
+ * @jsonDoc
+ * @description 时间单位
+ */
+export type DateTimeUnit = 'years' | 'quarters' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+/**
+ * @jsonDoc
+ * @description 计算日期差值的选项
+ */
+export interface DateDiffOptions {
+  // 是否返回带符号的差值，date2 早于 date1 时为负数，默认为 false（返回绝对值）
+  signed?: boolean;
+  // 是否返回小数，默认向零取整
+  asFloat?: boolean;
+  // 按日历计算天、周、月、季度、年时使用的 IANA 时区，不传则使用本地时区
+  timeZone?: string;
+}
+
+// 按固定时长计算的单位对应的毫秒数
+const UNIT_MS: Partial<Record<DateTimeUnit, number>> = {
+  hours: 60 * MINUTE_MS,
+  minutes: MINUTE_MS,
+  seconds: 1000,
+  milliseconds: 1
+};
+
+/**
+ * 按墙上时间计算两个日期相差的天数（带小数），夏令时切换当天也算作完整的一天
+ */
+function calendarDayDiff(from: Date, to: Date, timeZone?: string): number {
+  return (partsToUTC(getDateParts(to, timeZone)) - partsToUTC(getDateParts(from, timeZone))) / DAY_MS;
 }
 
 /**
  * @jsonDoc
- * @description 计算两个日期之间的差值
+ * @description 计算两个日期之间的差值。天和周按日历日期计算，月、季度、年按日历月份计算，
+ * 月末日期加减月份时取目标月份的最后一天（如 1 月 31 日到 2 月 29 日为 1 个月）
  * @param {Date} date1 - 第一个日期
  * @param {Date} date2 - 第二个日期
- * @param {string} unit - 返回差值的单位，支持 'milliseconds', 'seconds', 'minutes', 'hours', 'days'
- * @returns {number} 两个日期之间的差值
+ * @param {string} unit - 返回差值的单位，支持 'milliseconds', 'seconds', 'minutes', 'hours', 'days', 'weeks', 'months', 'quarters', 'years'
+ * @param {DateDiffOptions} [options] - 配置选项
+ * @param {boolean} [options.signed=false] - 是否返回带符号的差值，date2 早于 date1 时为负数
+ * @param {boolean} [options.asFloat=false] - 是否返回小数
+ * @param {string} [options.timeZone] - 按日历计算时使用的 IANA 时区，不传则使用本地时区
+ * @returns {number} 两个日期之间的差值，默认为向零取整后的绝对值
  */
-export function dateDiff(date1: Date, date2: Date, unit: 'milliseconds' | 'seconds' | 'minutes' | 'hours' | 'days' = 'days'): number {
-  const diffMs = Math.abs(date2.getTime() - date1.getTime());
-  
+export function dateDiff(date1: Date, date2: Date, unit: DateTimeUnit = 'days', options: DateDiffOptions = {}): number {
+  const { signed = false, asFloat = false, timeZone } = options;
+  let diff: number;
+
   switch (unit) {
-    case 'milliseconds':
-      return diffMs;
-    case 'seconds':
-      return Math.floor(diffMs / 1000);
-    case 'minutes':
-      return Math.floor(diffMs / (1000 * 60));
-    case 'hours':
-      return Math.floor(diffMs / (1000 * 60 * 60));
+    case 'years':
+      diff = calendarMonthDiff(date1, date2, timeZone) / 12;
+      break;
+    case 'quarters':
+      diff = calendarMonthDiff(date1, date2, timeZone) / 3;
+      break;
+    case 'months':
+      diff = calendarMonthDiff(date1, date2, timeZone);
+      break;
+    case 'weeks':
+      diff = calendarDayDiff(date1, date2, timeZone) / 7;
+      break;
     case 'days':
-      return Math.floor(diffMs / (1000 * 60 * 60 * 24));
+      diff = calendarDayDiff(date1, date2, timeZone);
+      break;
     default:
-      return diffMs;
+      diff = (date2.getTime() - date1.getTime()) / (UNIT_MS[unit] || 1);
+  }
+
+  if (!signed) diff = Math.abs(diff);
+  return asFloat ? diff : Math.trunc(diff) || 0;
+}
+
+/**
+ * @jsonDoc
+ * @description 时长，各字段可以为负数
+ */
+export interface Duration {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+/**
+ * @jsonDoc
+ * @description 计算时长的选项
+ */
+export interface DurationBetweenOptions {
+  // 按日历计算年、月、日时使用的 IANA 时区，不传则使用本地时区
+  timeZone?: string;
+  // 是否把天数拆分为周和天，默认为 false
+  weeks?: boolean;
+}
+
+/**
+ * @jsonDoc
+ * @description 把两个日期之间的时间拆分为年、月、日、时、分、秒、毫秒，先按日历计算整月，再按日历计算整天，剩余部分按实际经过的时间计算
+ * @param {Date} start - 开始日期
+ * @param {Date} end - 结束日期，早于开始日期时各字段为负数
+ * @param {DurationBetweenOptions} [options] - 配置选项
+ * @param {string} [options.timeZone] - 按日历计算时使用的 IANA 时区，不传则使用本地时区
+ * @param {boolean} [options.weeks=false] - 是否把天数拆分为周和天
+ * @returns {Duration} 包含所有字段的时长，不拆分周时 weeks 为 0
+ */
+export function durationBetween(start: Date, end: Date, options: DurationBetweenOptions = {}): Required<Duration> {
+  if (end.getTime() < start.getTime()) {
+    const duration = durationBetween(end, start, options);
+    (Object.keys(duration) as Array<keyof Duration>).forEach(key => {
+      duration[key] = -duration[key] || 0;
+    });
+    return duration;
   }
+
+  const { timeZone } = options;
+  const totalMonths = Math.floor(calendarMonthDiff(start, end, timeZone));
+  const anchor = addMonthsClamped(start, totalMonths, timeZone);
+
+  let days = Math.floor(calendarDayDiff(anchor, end, timeZone));
+  let dayAnchor = addTime(anchor, days, 'days', { timeZone });
+  // 夏令时调整可能让整天后的时间晚于结束时间
+  if (days > 0 && dayAnchor.getTime() > end.getTime()) {
+    days--;
+    dayAnchor = addTime(anchor, days, 'days', { timeZone });
+  }
+
+  let rest = end.getTime() - dayAnchor.getTime();
+  const hours = Math.floor(rest / (60 * MINUTE_MS));
+  rest -= hours * 60 * MINUTE_MS;
+  const minutes = Math.floor(rest / MINUTE_MS);
+  rest -= minutes * MINUTE_MS;
+  const seconds = Math.floor(rest / 1000);
+
+  return {
+    years: Math.floor(totalMonths / 12),
+    months: totalMonths % 12,
+    weeks: options.weeks ? Math.floor(days / 7) : 0,
+    days: options.weeks ? days % 7 : days,
+    hours,
+    minutes,
+    seconds,
+    milliseconds: rest - seconds * 1000
+  };
 }
 
 /**
@@ -124,9 +837,34 @@ export function dateDiff(date1: Date, date2: Date, unit: 'milliseconds' | 'secon
  * @param {Date} date - 原始日期
  * @param {number} amount - 要添加的数量
  * @param {string} unit - 添加的时间单位，支持 'years', 'months', 'days', 'hours', 'minutes', 'seconds'
+ * @param {TimeZoneOptions} [options] - 时区选项，指定时区时年、月、日按该时区的日历计算，时、分、秒按实际经过的时间计算
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @param {string} [options.disambiguation='compatible'] - 结果落在夏令时跳过或重复的时间段时的处理方式
  * @returns {Date} 添加时间后的新日期
  */
-export function addTime(date: Date, amount: number, unit: 'years' | 'months' | 'days' | 'hours' | 'minutes' | 'seconds'): Date {
+export function addTime(
+  date: Date,
+  amount: number,
+  unit: 'years' | 'months' | 'days' | 'hours' | 'minutes' | 'seconds',
+  options: TimeZoneOptions = {}
+): Date {
+  if (options.timeZone) {
+    switch (unit) {
+      case 'hours':
+        return new Date(date.getTime() + amount * 60 * MINUTE_MS);
+      case 'minutes':
+        return new Date(date.getTime() + amount * MINUTE_MS);
+      case 'seconds':
+        return new Date(date.getTime() + amount * 1000);
+    }
+
+    const parts = getDateParts(date, options.timeZone);
+    if (unit === 'years') parts.year += amount;
+    if (unit === 'months') parts.month += amount;
+    if (unit === 'days') parts.day += amount;
+    return partsToDate(normalizeParts(parts), options);
+  }
+
   const newDate = new Date(date);
   
   switch (unit) {
@@ -158,17 +896,18 @@ export function addTime(date: Date, amount: number, unit: 'years' | 'months' | '
  * @description 获取指定日期是星期几
  * @param {Date} date - 日期对象
  * @param {boolean} [asString=false] - 是否返回字符串表示（如 '星期一'）
+ * @param {LocaleOptions} [options] - 语言选项
+ * @param {string|DateLocale} [options.locale] - 语言标签或语言包，不传则使用全局默认语言
  * @returns {number|string} 星期几的数字（0-6，0表示星期日）或字符串表示
  */
-export function getDayOfWeek(date: Date, asString: boolean = false): number | string {
+export function getDayOfWeek(date: Date, asString: boolean = false, options: LocaleOptions = {}): number | string {
   const dayIndex = date.getDay();
   
   if (!asString) {
     return dayIndex;
   }
   
-  const weekdays = ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'];
-  return weekdays[dayIndex];
+  return getDateLocale(options.locale).weekdays[dayIndex];
 }
 
 /**
@@ -193,72 +932,758 @@ export function isLeapYear(year: number): boolean {
   return (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0);
 }
 
+/**
+ * @jsonDoc
+ * @description 获取日期是一年中的第几天
+ * @param {Date} date - 日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {number} 一年中的第几天（1-366）
+ */
+export function getDayOfYear(date: Date, options: TimeZoneOptions = {}): number {
+  return getPartsDayOfYear(getDateParts(date, options.timeZone));
+}
+
+/**
+ * @jsonDoc
+ * @description 获取日期所在的季度
+ * @param {Date} date - 日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {number} 季度（1-4）
+ */
+export function getQuarter(date: Date, options: TimeZoneOptions = {}): number {
+  return Math.ceil(getDateParts(date, options.timeZone).month / 3);
+}
+
+/**
+ * @jsonDoc
+ * @description 获取日期的 ISO 8601 周数。每周从星期一开始，每年的第一周是包含 1 月 4 日（即第一个星期四）的那一周
+ * @param {Date} date - 日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {number} 周数（1-53）
+ */
+export function getISOWeek(date: Date, options: TimeZoneOptions = {}): number {
+  return getPartsISOWeek(getDateParts(date, options.timeZone)).week;
+}
+
+/**
+ * @jsonDoc
+ * @description 获取日期的 ISO 8601 周年，年初和年末的几天可能属于上一年或下一年的周（如 2024-12-30 属于 2025 年第 1 周）
+ * @param {Date} date - 日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {number} ISO 周年
+ */
+export function getISOWeekYear(date: Date, options: TimeZoneOptions = {}): number {
+  return getPartsISOWeek(getDateParts(date, options.timeZone)).weekYear;
+}
+
+/**
+ * @jsonDoc
+ * @description 获取 ISO 周年包含的周数
+ * @param {number} year - ISO 周年
+ * @returns {number} 52 或 53
+ */
+export function getISOWeeksInYear(year: number): number {
+  // 12 月 28 日总是在该年的最后一周
+  return getPartsISOWeek({ year, month: 12, day: 28, hour: 0, minute: 0, second: 0, millisecond: 0 }).week;
+}
+
 /**
  * @jsonDoc
  * @description 获取日期的开始时间（00:00:00）
  * @param {Date} date - 日期对象
- * @returns {Date} 设置为当天开始时间的新日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @returns {Date} 设置为当天开始时间的新日期对象，当天零点被夏令时跳过时为当天最早的时间
  */
-export function startOfDay(date: Date): Date {
-  const newDate = new Date(date);
-  newDate.setHours(0, 0, 0, 0);
-  return newDate;
+export function startOfDay(date: Date, options: TimeZoneOptions = {}): Date {
+  if (!options.timeZone) {
+    const newDate = new Date(date);
+    newDate.setHours(0, 0, 0, 0);
+    return newDate;
+  }
+
+  const parts = getDateParts(date, options.timeZone);
+  return partsToDate({ ...parts, hour: 0, minute: 0, second: 0, millisecond: 0 }, { ...options, disambiguation: 'compatible' });
 }
 
 /**
  * @jsonDoc
  * @description 获取日期的结束时间（23:59:59.999）
  * @param {Date} date - 日期对象
+ * @param {TimeZoneOptions} [options] - 时区选项
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
  * @returns {Date} 设置为当天结束时间的新日期对象
  */
-export function endOfDay(date: Date): Date {
-  const newDate = new Date(date);
-  newDate.setHours(23, 59, 59, 999);
-  return newDate;
+export function endOfDay(date: Date, options: TimeZoneOptions = {}): Date {
+  if (!options.timeZone) {
+    const newDate = new Date(date);
+    newDate.setHours(23, 59, 59, 999);
+    return newDate;
+  }
+
+  // 取下一天开始前的最后一毫秒，不受当天结束时间是否重复的影响
+  const parts = getDateParts(date, options.timeZone);
+  const nextDay = normalizeParts({ ...parts, day: parts.day + 1, hour: 0, minute: 0, second: 0, millisecond: 0 });
+  return new Date(partsToDate(nextDay, { ...options, disambiguation: 'compatible' }).getTime() - 1);
+}
+
+/**
+ * 按月份加减日期，日期超出目标月份的天数时取该月最后一天（如 1 月 31 日加 1 个月为 2 月 29 日）
+ */
+function addMonthsClamped(date: Date, months: number, timeZone?: string): Date {
+  const parts = getDateParts(date, timeZone);
+  const target = normalizeParts({ ...parts, month: parts.month + months, day: 1 });
+  target.day = Math.min(parts.day, getDaysInMonth(target.year, target.month));
+  return partsToDate(target, { timeZone });
+}
+
+/**
+ * 按日历计算两个日期之间相差的月数（带小数），to 早于 from 时为负数
+ */
+function calendarMonthDiff(from: Date, to: Date, timeZone?: string): number {
+  if (to.getTime() < from.getTime()) {
+    return -calendarMonthDiff(to, from, timeZone);
+  }
+
+  const start = getDateParts(from, timeZone);
+  const end = getDateParts(to, timeZone);
+  let months = (end.year - start.year) * 12 + (end.month - start.month);
+  let anchor = addMonthsClamped(from, months, timeZone);
+  if (anchor.getTime() > to.getTime()) {
+    months--;
+    anchor = addMonthsClamped(from, months, timeZone);
+  }
+
+  // 不足一个月的部分按所在月份的实际长度折算
+  const next = addMonthsClamped(from, months + 1, timeZone);
+  return months + (to.getTime() - anchor.getTime()) / (next.getTime() - anchor.getTime());
 }
 
 /**
  * @jsonDoc
- * @description 获取相对时间描述（如"3分钟前"，"2小时后"）
- * @param {Date} date - 要比较的日期
- * @param {Date} [baseDate=new Date()] - 基准日期，默认为当前时间
- * @returns {string} 相对时间描述
+ * @description 相对时间各单位的阈值，数值达到阈值后使用更大的单位
+ */
+export interface RelativeTimeThresholds {
+  // 小于该秒数时显示"刚刚"，默认为 60
+  now: number;
+  // 小于该秒数时以秒为单位，默认为 60
+  second: number;
+  // 小于该分钟数时以分钟为单位，默认为 60
+  minute: number;
+  // 小于该小时数时以小时为单位，默认为 24
+  hour: number;
+  // 小于该天数时以天为单位，默认按日历不满 1 个月时以天为单位
+  day?: number;
+  // 设置后超出天数阈值、小于该周数时以周为单位，默认不使用周
+  week?: number;
+  // 小于该月数时以月为单位，默认为 12
+  month: number;
+}
+
+/**
+ * @jsonDoc
+ * @description 相对时间描述的选项
  */
-export function getRelativeTimeDescription(date: Date, baseDate: Date = new Date()): string {
+export interface RelativeTimeOptions extends LocaleOptions {
+  // 计算日历天数和月份时使用的 IANA 时区，不传则使用本地时区
+  timeZone?: string;
+  // 各单位的阈值
+  thresholds?: Partial<RelativeTimeThresholds>;
+  // 数值的取整方式，默认为 'floor'
+  rounding?: 'floor' | 'round' | 'ceil';
+  // 'numeric' 使用"3天前"的形式；'calendar' 在 7 天内使用"昨天"、"上周五"的形式，当天仍使用 numeric 形式
+  style?: 'numeric' | 'calendar';
+}
+
+/**
+ * @jsonDoc
+ * @description 相对时间的计算结果
+ */
+export interface RelativeTimeResult {
+  // 相对时间描述
+  text: string;
+  // 描述使用的单位，'now' 表示"刚刚"，'calendar' 表示"昨天"、"上周五"等
+  unit: RelativeTimeUnit | 'now' | 'calendar';
+  // 随着时间推移描述下一次变化的时间戳，无法确定时为 null
+  nextChangeAt: number | null;
+}
+
+const DEFAULT_RELATIVE_TIME_THRESHOLDS: RelativeTimeThresholds = {
+  now: 60,
+  second: 60,
+  minute: 60,
+  hour: 24,
+  month: 12
+};
+
+/**
+ * 计算相对时间描述，不包含下一次变化的时间
+ */
+function describeRelativeTime(
+  date: Date,
+  baseDate: Date,
+  options: RelativeTimeOptions
+): Pick<RelativeTimeResult, 'text' | 'unit'> {
+  const locale = getDateLocale(options.locale);
+  const thresholds = { ...DEFAULT_RELATIVE_TIME_THRESHOLDS, ...options.thresholds };
+  const round = Math[options.rounding || 'floor'];
   const diffMs = date.getTime() - baseDate.getTime();
   const diffAbs = Math.abs(diffMs);
   const isFuture = diffMs > 0;
-  
-  // 不到1分钟
-  if (diffAbs < 60 * 1000) {
-    return isFuture ? '刚刚' : '刚刚';
+
+  if (options.style === 'calendar') {
+    // 按日历日期计算相差的天数，不受时分秒和夏令时影响
+    const dateParts = getDateParts(date, options.timeZone);
+    const baseParts = getDateParts(baseDate, options.timeZone);
+    const dayOnly = (parts: DateTimeParts) => partsToUTC({ ...parts, hour: 0, minute: 0, second: 0, millisecond: 0 });
+    const days = Math.round((dayOnly(dateParts) - dayOnly(baseParts)) / DAY_MS);
+    const weekday = locale.weekdays[getPartsWeekday(dateParts)];
+
+    if (days === -1) return { text: locale.calendar.yesterday, unit: 'calendar' };
+    if (days === 1) return { text: locale.calendar.tomorrow, unit: 'calendar' };
+    if (days <= -2 && days >= -6) return { text: locale.calendar.lastWeekday.replace('%s', weekday), unit: 'calendar' };
+    if (days >= 2 && days <= 6) return { text: locale.calendar.nextWeekday.replace('%s', weekday), unit: 'calendar' };
   }
-  
-  // 不到1小时
-  if (diffAbs < 60 * 60 * 1000) {
-    const minutes = Math.floor(diffAbs / (60 * 1000));
-    return isFuture ? `${minutes}分钟后` : `${minutes}分钟前`;
+
+  const seconds = round(diffAbs / 1000);
+  if (seconds < thresholds.now) {
+    return { text: locale.justNow, unit: 'now' };
   }
-  
-  // 不到1天
-  if (diffAbs < 24 * 60 * 60 * 1000) {
-    const hours = Math.floor(diffAbs / (60 * 60 * 1000));
-    return isFuture ? `${hours}小时后` : `${hours}小时前`;
+  if (seconds < thresholds.second) {
+    return { text: locale.relativeTime(seconds, 'second', isFuture), unit: 'second' };
   }
-  
-  // 不到30天
-  if (diffAbs < 30 * 24 * 60 * 60 * 1000) {
-    const days = Math.floor(diffAbs / (24 * 60 * 60 * 1000));
-    return isFuture ? `${days}天后` : `${days}天前`;
+
+  const minutes = round(diffAbs / MINUTE_MS);
+  if (minutes < thresholds.minute) {
+    return { text: locale.relativeTime(minutes, 'minute', isFuture), unit: 'minute' };
   }
-  
-  // 不到12个月
-  if (diffAbs < 12 * 30 * 24 * 60 * 60 * 1000) {
-    const months = Math.floor(diffAbs / (30 * 24 * 60 * 60 * 1000));
-    return isFuture ? `${months}个月后` : `${months}个月前`;
+
+  const hours = round(diffAbs / (60 * MINUTE_MS));
+  if (hours < thresholds.hour) {
+    return { text: locale.relativeTime(hours, 'hour', isFuture), unit: 'hour' };
   }
-  
-  // 超过12个月
-  const years = Math.floor(diffAbs / (12 * 30 * 24 * 60 * 60 * 1000));
-  return isFuture ? `${years}年后` : `${years}年前`;
+
+  // 月和年按日历计算，不再把每个月当作 30 天
+  const months = round(Math.abs(calendarMonthDiff(baseDate, date, options.timeZone)));
+  const days = round(diffAbs / DAY_MS);
+  const useDays = thresholds.day !== undefined ? days < thresholds.day : months < 1;
+  if (useDays) {
+    return { text: locale.relativeTime(days, 'day', isFuture), unit: 'day' };
+  }
+
+  const weeks = round(diffAbs / (7 * DAY_MS));
+  if (thresholds.week !== undefined && weeks < thresholds.week) {
+    return { text: locale.relativeTime(Math.max(weeks, 1), 'week', isFuture), unit: 'week' };
+  }
+
+  if (months < thresholds.month) {
+    return { text: locale.relativeTime(Math.max(months, 1), 'month', isFuture), unit: 'month' };
+  }
+
+  const years = round(Math.abs(calendarMonthDiff(baseDate, date, options.timeZone)) / 12);
+  return { text: locale.relativeTime(Math.max(years, 1), 'year', isFuture), unit: 'year' };
+}
+
+// 查找下一次变化时各单位的步长，步长内描述最多变化一次
+const RELATIVE_TIME_STEPS: Record<RelativeTimeResult['unit'], number> = {
+  now: 1000,
+  second: 1000,
+  minute: MINUTE_MS,
+  hour: 60 * MINUTE_MS,
+  day: 60 * MINUTE_MS,
+  week: 60 * MINUTE_MS,
+  calendar: 60 * MINUTE_MS,
+  month: DAY_MS,
+  year: DAY_MS
+};
+
+// 按步长向后查找的最大次数
+const MAX_RELATIVE_TIME_STEPS = 800;
+
+/**
+ * 查找基准时间推移后描述第一次变化的时间戳
+ */
+function findNextRelativeTimeChange(date: Date, baseDate: Date, options: RelativeTimeOptions, current: Pick<RelativeTimeResult, 'text' | 'unit'>): number | null {
+  const textAt = (time: number) => describeRelativeTime(date, new Date(time), options).text;
+  let low = baseDate.getTime();
+  let high = low;
+
+  // 按当前单位的步长向后查找，直到描述发生变化
+  for (let step = 0; step < MAX_RELATIVE_TIME_STEPS; step++) {
+    high = low + RELATIVE_TIME_STEPS[current.unit];
+    if (textAt(high) !== current.text) break;
+    low = high;
+    if (step === MAX_RELATIVE_TIME_STEPS - 1) return null;
+  }
+
+  // 二分查找变化的精确时间
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (textAt(middle) === current.text) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+}
+
+/**
+ * @jsonDoc
+ * @description 获取相对时间描述以及描述下一次变化的时间，月和年按日历计算
+ * @param {Date} date - 要比较的日期
+ * @param {Date} [baseDate=new Date()] - 基准日期，默认为当前时间
+ * @param {RelativeTimeOptions} [options] - 配置选项
+ * @param {string|DateLocale} [options.locale] - 语言标签或语言包，不传则使用全局默认语言
+ * @param {string} [options.timeZone] - 计算日历天数和月份时使用的 IANA 时区
+ * @param {Object} [options.thresholds] - 各单位的阈值
+ * @param {string} [options.rounding='floor'] - 数值的取整方式，'floor'、'round' 或 'ceil'
+ * @param {string} [options.style='numeric'] - 'numeric' 或 'calendar'（昨天、上周五）
+ * @returns {RelativeTimeResult} 相对时间描述、使用的单位以及下一次变化的时间戳
+ */
+export function getRelativeTime(date: Date, baseDate: Date = new Date(), options: RelativeTimeOptions = {}): RelativeTimeResult {
+  const current = describeRelativeTime(date, baseDate, options);
+  return { ...current, nextChangeAt: findNextRelativeTimeChange(date, baseDate, options, current) };
+}
+
+/**
+ * @jsonDoc
+ * @description 获取相对时间描述（如"3分钟前"，"2小时后"），月和年按日历计算
+ * @param {Date} date - 要比较的日期
+ * @param {Date} [baseDate=new Date()] - 基准日期，默认为当前时间
+ * @param {RelativeTimeOptions} [options] - 配置选项，同 getRelativeTime
+ * @returns {string} 相对时间描述
+ */
+export function getRelativeTimeDescription(date: Date, baseDate: Date = new Date(), options: RelativeTimeOptions = {}): string {
+  return describeRelativeTime(date, baseDate, options).text;
+}
+
+// setTimeout 支持的最大延迟
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * @jsonDoc
+ * @description 持续监听相对时间描述，描述变化时调用回调，适用于页面上的时间标签
+ * @param {Date} date - 要比较的日期
+ * @param {Function} callback - 描述变化时调用的回调函数，监听开始时会立即调用一次
+ * @param {RelativeTimeOptions} [options] - 配置选项，同 getRelativeTime
+ * @returns {Function} 停止监听的函数
+ */
+export function watchRelativeTime(
+  date: Date,
+  callback: (text: string, result: RelativeTimeResult) => void,
+  options: RelativeTimeOptions = {}
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastText: string | null = null;
+  // 回调中可能调用停止函数，此时不再安排下一次更新
+  let stopped = false;
+
+  const update = () => {
+    timer = null;
+    const result = getRelativeTime(date, new Date(), options);
+    if (result.text !== lastText) {
+      lastText = result.text;
+      callback(result.text, result);
+    }
+    if (!stopped && result.nextChangeAt !== null) {
+      timer = setTimeout(update, Math.min(Math.max(result.nextChangeAt - Date.now(), 0), MAX_TIMEOUT));
+    }
+  };
+  update();
+
+  // 返回停止监听的函数
+  return () => {
+    stopped = true;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 时长描述的选项
+ */
+export interface HumanizeDurationOptions extends LocaleOptions {
+  // 可以使用的单位，默认为年、月、天、时、分、秒；毫秒数不包含年和月，只使用其余单位
+  units?: RelativeTimeUnit[];
+  // 最多显示的单位数量，默认为 2，更小的单位直接舍去
+  largest?: number;
+}
+
+// 固定长度的时长单位对应的毫秒数，从大到小排列
+const HUMANIZE_UNIT_MS: Array<[RelativeTimeUnit, number]> = [
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000]
+];
+
+/**
+ * @jsonDoc
+ * @description 获取不带方向的时长描述（如"1小时5分钟"、"2 days 3 hours"），单位名称来自语言包。
+ * 年和月按日历单位保留，满 12 个月进位为 1 年，其余字段换算为毫秒后从大到小拆分；符号会被忽略
+ * @param {Duration|number} duration - 时长或毫秒数
+ * @param {HumanizeDurationOptions} [options] - 配置选项
+ * @param {string|DateLocale} [options.locale] - 语言标签或语言包，不传则使用全局默认语言
+ * @param {string[]} [options.units] - 可以使用的单位，默认为 ['year', 'month', 'day', 'hour', 'minute', 'second']
+ * @param {number} [options.largest=2] - 最多显示的单位数量
+ * @returns {string} 时长描述，不足最小单位时显示为 0 个最小单位
+ */
+export function humanizeDuration(duration: Duration | number, options: HumanizeDurationOptions = {}): string {
+  const { units = ['year', 'month', 'day', 'hour', 'minute', 'second'], largest = 2 } = options;
+  const locale = getDateLocale(options.locale);
+  const format = locale.duration || getDateLocale('en').duration!;
+
+  let months = 0;
+  let milliseconds: number;
+  if (typeof duration === 'number') {
+    milliseconds = Math.abs(duration);
+  } else {
+    months = Math.abs((duration.years || 0) * 12 + (duration.months || 0));
+    milliseconds = Math.abs(
+      (duration.weeks || 0) * HUMANIZE_UNIT_MS[0][1]
+      + (duration.days || 0) * HUMANIZE_UNIT_MS[1][1]
+      + (duration.hours || 0) * HUMANIZE_UNIT_MS[2][1]
+      + (duration.minutes || 0) * HUMANIZE_UNIT_MS[3][1]
+      + (duration.seconds || 0) * HUMANIZE_UNIT_MS[4][1]
+      + (duration.milliseconds || 0)
+    );
+  }
+
+  const parts: Array<[number, RelativeTimeUnit]> = [];
+  if (units.indexOf('year') >= 0) {
+    parts.push([Math.floor(months / 12), 'year']);
+    months %= 12;
+  }
+  // 不使用月时，剩余的月份无法在没有参照日期的情况下换算，直接舍去
+  if (units.indexOf('month') >= 0) {
+    parts.push([months, 'month']);
+  }
+  HUMANIZE_UNIT_MS.forEach(([unit, size]) => {
+    if (units.indexOf(unit) < 0) return;
+    parts.push([Math.floor(milliseconds / size), unit]);
+    milliseconds %= size;
+  });
+
+  const shown = parts.filter(([value]) => value > 0).slice(0, Math.max(largest, 1));
+  if (!shown.length) {
+    return parts.length ? format(0, parts[parts.length - 1][1]) : '';
+  }
+
+  const separator = locale.durationSeparator ?? ' ';
+  return shown.map(([value, unit]) => format(value, unit)).join(separator);
+}
+
+/**
+ * @jsonDoc
+ * @description DateTime 可以接受的日期，字符串按 parseDate 解析
+ */
+export type DateTimeInput = Date | number | string | DateTime;
+
+/**
+ * @jsonDoc
+ * @description DateTime 的配置选项
+ */
+export interface DateTimeOptions extends TimeZoneOptions, LocaleOptions {
+  // 每周从星期几开始（0-6，0 表示星期日），默认为 1（星期一）
+  weekStartsOn?: number;
+}
+
+/**
+ * 把 DateTime 可以接受的日期转换为日期对象
+ */
+function toDateValue(input: DateTimeInput, options: DateTimeOptions = {}): Date {
+  if (input instanceof DateTime) return input.toDate();
+  if (typeof input === 'string') return parseDate(input, undefined, options);
+  return new Date(input);
+}
+
+/**
+ * 按单位加减时间，月、季度、年在月末溢出时取目标月份的最后一天
+ */
+function addUnit(date: Date, amount: number, unit: DateTimeUnit, options: TimeZoneOptions): Date {
+  switch (unit) {
+    case 'years':
+      return addMonthsClamped(date, amount * 12, options.timeZone);
+    case 'quarters':
+      return addMonthsClamped(date, amount * 3, options.timeZone);
+    case 'months':
+      return addMonthsClamped(date, amount, options.timeZone);
+    case 'weeks':
+      return addTime(date, amount * 7, 'days', options);
+    case 'milliseconds':
+      return new Date(date.getTime() + amount);
+    default:
+      return addTime(date, amount, unit, options);
+  }
+}
+
+/**
+ * 获取日期所在时间单位的开始时间
+ */
+function startOfUnit(date: Date, unit: DateTimeUnit, options: DateTimeOptions): Date {
+  const { timeZone, weekStartsOn = 1 } = options;
+  const parts = getDateParts(date, timeZone);
+
+  switch (unit) {
+    case 'years':
+    case 'quarters':
+    case 'months': {
+      const monthStart = startOfDay(addTime(date, 1 - parts.day, 'days', { timeZone }), { timeZone });
+      if (unit === 'months') return monthStart;
+      const months = unit === 'years' ? parts.month - 1 : (parts.month - 1) % 3;
+      return startOfDay(addMonthsClamped(monthStart, -months, timeZone), { timeZone });
+    }
+    case 'weeks':
+      return startOfDay(addTime(date, -((getPartsWeekday(parts) - weekStartsOn + 7) % 7), 'days', { timeZone }), { timeZone });
+    case 'days':
+      return startOfDay(date, { timeZone });
+    // 小时及更小的单位直接减去多出的时长，不受夏令时重复时间段的影响
+    case 'hours':
+      return new Date(date.getTime() - ((parts.minute * 60 + parts.second) * 1000 + parts.millisecond));
+    case 'minutes':
+      return new Date(date.getTime() - (parts.second * 1000 + parts.millisecond));
+    case 'seconds':
+      return new Date(date.getTime() - parts.millisecond);
+    default:
+      return new Date(date);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 不可变的日期时间类，支持链式调用，所有修改都返回新的实例
+ */
+export class DateTime {
+  private readonly value: Date;
+  private readonly options: DateTimeOptions;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的日期时间实例
+   * @param {DateTimeInput} [input=new Date()] - 日期对象、时间戳、日期字符串或 DateTime 实例
+   * @param {DateTimeOptions} [options] - 配置选项
+   * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+   * @param {string|DateLocale} [options.locale] - 格式化使用的语言标签或语言包
+   * @param {number} [options.weekStartsOn=1] - 每周从星期几开始
+   */
+  constructor(input: DateTimeInput = new Date(), options: DateTimeOptions = {}) {
+    this.options = input instanceof DateTime ? { ...input.options, ...options } : options;
+    this.value = toDateValue(input, this.options);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 增加时间，月、季度、年在月末溢出时取目标月份的最后一天（如 1 月 31 日加 1 个月为 2 月 29 日）
+   * @param {number} amount - 要增加的数量
+   * @param {DateTimeUnit} unit - 时间单位，支持 'years', 'quarters', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'
+   * @returns {DateTime} 新的日期时间实例
+   */
+  add(amount: number, unit: DateTimeUnit): DateTime {
+    return this.clone(addUnit(this.value, amount, unit, this.options));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 减少时间
+   * @param {number} amount - 要减少的数量
+   * @param {DateTimeUnit} unit - 时间单位
+   * @returns {DateTime} 新的日期时间实例
+   */
+  subtract(amount: number, unit: DateTimeUnit): DateTime {
+    return this.add(-amount, unit);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取所在时间单位的开始时间，如当月 1 日 00:00:00
+   * @param {DateTimeUnit} unit - 时间单位，'weeks' 按 weekStartsOn 计算
+   * @returns {DateTime} 新的日期时间实例
+   */
+  startOf(unit: DateTimeUnit): DateTime {
+    return this.clone(startOfUnit(this.value, unit, this.options));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取所在时间单位的结束时间，如当月最后一天 23:59:59.999
+   * @param {DateTimeUnit} unit - 时间单位
+   * @returns {DateTime} 新的日期时间实例
+   */
+  endOf(unit: DateTimeUnit): DateTime {
+    if (unit === 'milliseconds') return this.clone(this.value);
+    if (unit === 'days') return this.clone(endOfDay(this.value, this.options));
+
+    const start = startOfUnit(this.value, unit, this.options);
+    return this.clone(new Date(addUnit(start, 1, unit, this.options).getTime() - 1));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否早于另一个日期，指定单位时比较所在单位的结束时间
+   * @param {DateTimeInput} other - 要比较的日期
+   * @param {DateTimeUnit} [unit] - 比较的粒度，如 'days' 表示比较日期不比较时间
+   * @returns {boolean} 如果更早则返回 true，否则返回 false
+   */
+  isBefore(other: DateTimeInput, unit?: DateTimeUnit): boolean {
+    const target = toDateValue(other, this.options).getTime();
+    return (unit ? this.endOf(unit).valueOf() : this.valueOf()) < target;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否晚于另一个日期，指定单位时比较所在单位的开始时间
+   * @param {DateTimeInput} other - 要比较的日期
+   * @param {DateTimeUnit} [unit] - 比较的粒度
+   * @returns {boolean} 如果更晚则返回 true，否则返回 false
+   */
+  isAfter(other: DateTimeInput, unit?: DateTimeUnit): boolean {
+    const target = toDateValue(other, this.options).getTime();
+    return (unit ? this.startOf(unit).valueOf() : this.valueOf()) > target;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否与另一个日期相同，指定单位时检查是否在同一个时间单位内
+   * @param {DateTimeInput} other - 要比较的日期
+   * @param {DateTimeUnit} [unit] - 比较的粒度，如 'months' 表示同年同月
+   * @returns {boolean} 如果相同则返回 true，否则返回 false
+   */
+  isSame(other: DateTimeInput, unit?: DateTimeUnit): boolean {
+    const target = toDateValue(other, this.options).getTime();
+    if (!unit) return this.valueOf() === target;
+    return this.startOf(unit).valueOf() <= target && target <= this.endOf(unit).valueOf();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否在两个日期之间
+   * @param {DateTimeInput} start - 开始日期
+   * @param {DateTimeInput} end - 结束日期
+   * @param {DateTimeUnit} [unit] - 比较的粒度
+   * @param {string} [inclusivity='()'] - 是否包含边界，'()' 都不包含，'[]' 都包含，'[)' 只包含开始，'(]' 只包含结束
+   * @returns {boolean} 如果在两个日期之间则返回 true，否则返回 false
+   */
+  isBetween(start: DateTimeInput, end: DateTimeInput, unit?: DateTimeUnit, inclusivity: '()' | '[]' | '[)' | '(]' = '()'): boolean {
+    const afterStart = inclusivity[0] === '[' ? !this.isBefore(start, unit) : this.isAfter(start, unit);
+    const beforeEnd = inclusivity[1] === ']' ? !this.isAfter(end, unit) : this.isBefore(end, unit);
+    return afterStart && beforeEnd;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 计算与另一个日期的差值，早于另一个日期时为负数。天和周按日历日期计算，月、季度、年按日历月份计算
+   * @param {DateTimeInput} other - 要比较的日期
+   * @param {DateTimeUnit} [unit='milliseconds'] - 差值的单位
+   * @param {boolean} [asFloat=false] - 是否返回小数，默认向零取整
+   * @returns {number} 差值
+   */
+  diff(other: DateTimeInput, unit: DateTimeUnit = 'milliseconds', asFloat: boolean = false): number {
+    return dateDiff(toDateValue(other, this.options), this.value, unit, {
+      signed: true,
+      asFloat,
+      timeZone: this.options.timeZone
+    });
+  }
+
+  /**
+   * @jsonDoc
+   * @description 格式化为字符串
+   * @param {string} [format='YYYY-MM-DD HH:mm:ss'] - 格式模板，同 formatDateTime
+   * @returns {string} 格式化后的日期字符串
+   */
+  format(format: string = 'YYYY-MM-DD HH:mm:ss'): string {
+    return formatDateTime(this.value, format, this.options);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 切换时区，表示的时间不变
+   * @param {string} timeZone - IANA 时区名称
+   * @returns {DateTime} 新的日期时间实例
+   */
+  withTimeZone(timeZone: string): DateTime {
+    return new DateTime(this.value, { ...this.options, timeZone });
+  }
+
+  /**
+   * @jsonDoc
+   * @description 切换格式化使用的语言
+   * @param {string|DateLocale} locale - 语言标签或语言包
+   * @returns {DateTime} 新的日期时间实例
+   */
+  withLocale(locale: string | DateLocale): DateTime {
+    return new DateTime(this.value, { ...this.options, locale });
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否为有效的日期
+   * @returns {boolean} 如果有效则返回 true，否则返回 false
+   */
+  isValid(): boolean {
+    return !isNaN(this.value.getTime());
+  }
+
+  /**
+   * @jsonDoc
+   * @description 转换为日期对象
+   * @returns {Date} 新的日期对象
+   */
+  toDate(): Date {
+    return new Date(this.value);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取时间戳，支持直接用比较运算符比较两个实例
+   * @returns {number} 时间戳（毫秒）
+   */
+  valueOf(): number {
+    return this.value.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 转换为 ISO 8601 字符串（UTC）
+   * @returns {string} ISO 8601 字符串
+   */
+  toISOString(): string {
+    return this.value.toISOString();
+  }
+
+  /**
+   * @jsonDoc
+   * @description JSON 序列化时使用 ISO 8601 字符串
+   * @returns {string} ISO 8601 字符串
+   */
+  toJSON(): string {
+    return this.toISOString();
+  }
+
+  /**
+   * 使用相同的配置创建新的实例
+   */
+  private clone(date: Date): DateTime {
+    return new DateTime(date, this.options);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的日期时间实例
+ * @param {DateTimeInput} [input=new Date()] - 日期对象、时间戳、日期字符串或 DateTime 实例
+ * @param {DateTimeOptions} [options] - 配置选项
+ * @returns {DateTime} 日期时间实例
+ */
+export function dateTime(input: DateTimeInput = new Date(), options: DateTimeOptions = {}): DateTime {
+  return new DateTime(input, options);
 } 
\ No newline at end of file
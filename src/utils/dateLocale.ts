@@ -0,0 +1,314 @@
+/**
+ * @jsonDoc
+ * @description 相对时间的单位
+ */
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * @jsonDoc
+ * @description 日期语言包，提供月份、星期、上下午、纪元名称以及序数和相对时间的格式
+ */
+export interface DateLocale {
+  // 语言标签，如 'en'、'zh'、'ja'
+  name: string;
+  // 月份名称，从一月开始
+  months: string[];
+  monthsShort: string[];
+  // 星期名称，从星期日开始
+  weekdays: string[];
+  weekdaysShort: string[];
+  // 上午和下午
+  meridiem: [string, string];
+  // 公元前和公元
+  eras: [string, string];
+  // 序数，如 1st、1日
+  ordinal: (value: number) => string;
+  // 不到 1 分钟时的相对时间描述
+  justNow: string;
+  // 相对时间描述，value 为正数
+  relativeTime: (value: number, unit: RelativeTimeUnit, isFuture: boolean) => string;
+  // 不带方向的时长描述，如 3 days、3天，不提供时使用英文
+  duration?: (value: number, unit: RelativeTimeUnit) => string;
+  // 拼接多个时长单位时使用的分隔符，默认为空格
+  durationSeparator?: string;
+  // 按日历描述相对日期，%s 替换为星期名称
+  calendar: {
+    yesterday: string;
+    tomorrow: string;
+    lastWeekday: string;
+    nextWeekday: string;
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 日期语言选项
+ */
+export interface LocaleOptions {
+  // 语言标签或语言包，不传则使用 setDateLocale 设置的全局语言
+  locale?: string | DateLocale;
+}
+
+type UnitTemplates = Record<RelativeTimeUnit, string | [string, string]>;
+
+/**
+ * 根据模板生成带单位的数量，%d 替换为数量；单位模板为数组时第一个用于数量 1
+ */
+function durationFromTemplates(units: UnitTemplates): NonNullable<DateLocale['duration']> {
+  return (value, unit) => {
+    const template = units[unit];
+    return (Array.isArray(template) ? template[value === 1 ? 0 : 1] : template).replace('%d', String(value));
+  };
+}
+
+/**
+ * 根据模板生成相对时间函数，%s 替换为带单位的数量
+ */
+function relativeTimeFromTemplates(future: string, past: string, units: UnitTemplates): DateLocale['relativeTime'] {
+  const duration = durationFromTemplates(units);
+  return (value, unit, isFuture) => (isFuture ? future : past).replace('%s', duration(value, unit));
+}
+
+const enUnits: UnitTemplates = {
+  second: ['%d second', '%d seconds'],
+  minute: ['%d minute', '%d minutes'],
+  hour: ['%d hour', '%d hours'],
+  day: ['%d day', '%d days'],
+  week: ['%d week', '%d weeks'],
+  month: ['%d month', '%d months'],
+  year: ['%d year', '%d years']
+};
+
+const zhUnits: UnitTemplates = {
+  second: '%d秒',
+  minute: '%d分钟',
+  hour: '%d小时',
+  day: '%d天',
+  week: '%d周',
+  month: '%d个月',
+  year: '%d年'
+};
+
+const jaUnits: UnitTemplates = {
+  second: '%d秒',
+  minute: '%d分',
+  hour: '%d時間',
+  day: '%d日',
+  week: '%d週間',
+  month: '%dヶ月',
+  year: '%d年'
+};
+
+const en: DateLocale = {
+  name: 'en',
+  months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  monthsShort: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  weekdaysShort: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  meridiem: ['AM', 'PM'],
+  eras: ['BC', 'AD'],
+  ordinal: value => {
+    const remainder = value % 100;
+    if (remainder >= 11 && remainder <= 13) return `${value}th`;
+    switch (value % 10) {
+      case 1:
+        return `${value}st`;
+      case 2:
+        return `${value}nd`;
+      case 3:
+        return `${value}rd`;
+      default:
+        return `${value}th`;
+    }
+  },
+  justNow: 'just now',
+  relativeTime: relativeTimeFromTemplates('in %s', '%s ago', enUnits),
+  duration: durationFromTemplates(enUnits),
+  durationSeparator: ' ',
+  calendar: {
+    yesterday: 'yesterday',
+    tomorrow: 'tomorrow',
+    lastWeekday: 'last %s',
+    nextWeekday: 'next %s'
+  }
+};
+
+const zh: DateLocale = {
+  name: 'zh',
+  months: ['一月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '十一月', '十二月'],
+  monthsShort: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+  weekdays: ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'],
+  weekdaysShort: ['周日', '周一', '周二', '周三', '周四', '周五', '周六'],
+  meridiem: ['上午', '下午'],
+  eras: ['公元前', '公元'],
+  ordinal: value => `${value}日`,
+  justNow: '刚刚',
+  relativeTime: relativeTimeFromTemplates('%s后', '%s前', zhUnits),
+  duration: durationFromTemplates(zhUnits),
+  durationSeparator: '',
+  calendar: {
+    yesterday: '昨天',
+    tomorrow: '明天',
+    lastWeekday: '上%s',
+    nextWeekday: '下%s'
+  }
+};
+
+const ja: DateLocale = {
+  name: 'ja',
+  months: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+  monthsShort: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+  weekdays: ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'],
+  weekdaysShort: ['日', '月', '火', '水', '木', '金', '土'],
+  meridiem: ['午前', '午後'],
+  eras: ['紀元前', '西暦'],
+  ordinal: value => `${value}日`,
+  justNow: 'たった今',
+  relativeTime: relativeTimeFromTemplates('%s後', '%s前', jaUnits),
+  duration: durationFromTemplates(jaUnits),
+  durationSeparator: '',
+  calendar: {
+    yesterday: '昨日',
+    tomorrow: '明日',
+    lastWeekday: '先週%s',
+    nextWeekday: '来週%s'
+  }
+};
+
+const dateLocales: Record<string, DateLocale> = { en, zh, ja };
+// 默认使用中文，与原有的 getDayOfWeek 和 getRelativeTimeDescription 保持一致
+let globalLocale = 'zh';
+
+/**
+ * 获取 Intl.DateTimeFormat 格式化结果中指定类型的部分
+ */
+function getIntlPart(locale: string, options: Intl.DateTimeFormatOptions, date: Date, type: string): string {
+  const parts: Array<{ type: string; value: string }> = (new Intl.DateTimeFormat(locale, { timeZone: 'UTC', ...options }) as any)
+    .formatToParts(date);
+  const part = parts.find(item => item.type === type);
+  return part ? part.value : '';
+}
+
+/**
+ * @jsonDoc
+ * @description 基于 Intl.DateTimeFormat、Intl.RelativeTimeFormat 和 Intl.NumberFormat 为任意语言生成语言包
+ * @param {string} locale - BCP 47 语言标签，如 'fr'、'ko-KR'
+ * @returns {DateLocale} 语言包
+ */
+export function createIntlDateLocale(locale: string): DateLocale {
+  const months: string[] = [];
+  const monthsShort: string[] = [];
+  for (let month = 0; month < 12; month++) {
+    const date = new Date(Date.UTC(2000, month, 1));
+    months.push(new Intl.DateTimeFormat(locale, { timeZone: 'UTC', month: 'long' }).format(date));
+    monthsShort.push(new Intl.DateTimeFormat(locale, { timeZone: 'UTC', month: 'short' }).format(date));
+  }
+
+  const weekdays: string[] = [];
+  const weekdaysShort: string[] = [];
+  for (let day = 0; day < 7; day++) {
+    // 2000-01-02 是星期日
+    const date = new Date(Date.UTC(2000, 0, 2 + day));
+    weekdays.push(new Intl.DateTimeFormat(locale, { timeZone: 'UTC', weekday: 'long' }).format(date));
+    weekdaysShort.push(new Intl.DateTimeFormat(locale, { timeZone: 'UTC', weekday: 'short' }).format(date));
+  }
+
+  const hourOptions: Intl.DateTimeFormatOptions = { hour: 'numeric', hour12: true };
+  const eraDate = new Date(Date.UTC(2000, 0, 1));
+  const bcDate = new Date(Date.UTC(2000, 0, 1));
+  bcDate.setUTCFullYear(-1);
+
+  const RelativeTimeFormat = (Intl as any).RelativeTimeFormat;
+  const numericFormatter = RelativeTimeFormat ? new RelativeTimeFormat(locale, { numeric: 'always' }) : null;
+  const autoFormatter = RelativeTimeFormat ? new RelativeTimeFormat(locale, { numeric: 'auto' }) : null;
+  // 不支持 style: 'unit' 的环境会抛出错误，此时使用英文
+  const durationFormatters: Partial<Record<RelativeTimeUnit, Intl.NumberFormat>> = {};
+  const formatDuration = (value: number, unit: RelativeTimeUnit): string => {
+    try {
+      const formatter = durationFormatters[unit]
+        || (durationFormatters[unit] = new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'long' } as any));
+      return formatter.format(value);
+    } catch {
+      return en.duration!(value, unit);
+    }
+  };
+
+  return {
+    name: locale,
+    months,
+    monthsShort,
+    weekdays,
+    weekdaysShort,
+    meridiem: [
+      getIntlPart(locale, hourOptions, new Date(Date.UTC(2000, 0, 1, 9)), 'dayPeriod') || en.meridiem[0],
+      getIntlPart(locale, hourOptions, new Date(Date.UTC(2000, 0, 1, 15)), 'dayPeriod') || en.meridiem[1]
+    ],
+    eras: [
+      getIntlPart(locale, { era: 'short', year: 'numeric' }, bcDate, 'era') || en.eras[0],
+      getIntlPart(locale, { era: 'short', year: 'numeric' }, eraDate, 'era') || en.eras[1]
+    ],
+    ordinal: value => String(value),
+    justNow: autoFormatter ? autoFormatter.format(0, 'second') : en.justNow,
+    relativeTime: (value, unit, isFuture) => numericFormatter
+      ? numericFormatter.format(isFuture ? value : -value, unit)
+      : en.relativeTime(value, unit, isFuture),
+    duration: formatDuration,
+    durationSeparator: ' ',
+    // Intl 没有"上周五"这样的表达，只使用星期名称
+    calendar: {
+      yesterday: autoFormatter ? autoFormatter.format(-1, 'day') : en.calendar.yesterday,
+      tomorrow: autoFormatter ? autoFormatter.format(1, 'day') : en.calendar.tomorrow,
+      lastWeekday: '%s',
+      nextWeekday: '%s'
+    }
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 注册或覆盖语言包
+ * @param {DateLocale} locale - 语言包，name 为语言标签
+ * @returns {void}
+ */
+export function registerDateLocale(locale: DateLocale): void {
+  dateLocales[locale.name] = locale;
+}
+
+/**
+ * @jsonDoc
+ * @description 设置全局默认语言
+ * @param {string|DateLocale} locale - 语言标签或语言包，传入语言包时会同时注册
+ * @returns {void}
+ */
+export function setDateLocale(locale: string | DateLocale): void {
+  if (typeof locale !== 'string') {
+    registerDateLocale(locale);
+    globalLocale = locale.name;
+    return;
+  }
+  globalLocale = locale;
+}
+
+/**
+ * @jsonDoc
+ * @description 获取语言包。先按完整标签查找，再按语言部分查找（如 'zh-CN' 使用 'zh'），都没有时通过 Intl 生成
+ * @param {string|DateLocale} [locale] - 语言标签或语言包，不传则使用全局默认语言
+ * @returns {DateLocale} 语言包
+ */
+export function getDateLocale(locale?: string | DateLocale): DateLocale {
+  if (locale && typeof locale !== 'string') return locale;
+
+  const name = locale || globalLocale;
+  if (dateLocales[name]) return dateLocales[name];
+
+  const language = name.split('-')[0];
+  if (dateLocales[language]) return dateLocales[language];
+
+  try {
+    const generated = createIntlDateLocale(name);
+    dateLocales[name] = generated;
+    return generated;
+  } catch {
+    return en;
+  }
+}
@@ -0,0 +1,460 @@
+import {
+  DateTimeOptions,
+  DateTimeUnit,
+  Duration,
+  DurationBetweenOptions,
+  TimeZoneOptions,
+  addTime,
+  dateDiff,
+  dateTime,
+  durationBetween,
+  parseDate
+} from './date';
+
+// 时长字段，按从大到小排列
+const DURATION_FIELDS: Array<keyof Duration> = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+
+// ISO 8601 时长，如 P1Y2M3DT4H5M6.5S、P2W、-PT30M
+const ISO_DURATION_REGEXP = /^([+-])?P(?:([\d.,]+)Y)?(?:([\d.,]+)M)?(?:([\d.,]+)W)?(?:([\d.,]+)D)?(?:T(?:([\d.,]+)H)?(?:([\d.,]+)M)?(?:([\d.,]+)S)?)?$/i;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// 固定时长的字段对应的毫秒数，年和月不是固定时长
+const FIELD_MS: Partial<Record<keyof Duration, number>> = {
+  weeks: 7 * DAY_MS,
+  days: DAY_MS,
+  hours: HOUR_MS,
+  minutes: 60 * 1000,
+  seconds: 1000,
+  milliseconds: 1
+};
+
+/**
+ * 把毫秒数拆分为天、时、分、秒、毫秒，符号与毫秒数一致
+ */
+function splitMilliseconds(milliseconds: number): Duration {
+  const sign = milliseconds < 0 ? -1 : 1;
+  let rest = Math.abs(milliseconds);
+  const result: Duration = {};
+
+  (['days', 'hours', 'minutes', 'seconds'] as Array<keyof Duration>).forEach(field => {
+    const value = Math.floor(rest / FIELD_MS[field]!);
+    rest -= value * FIELD_MS[field]!;
+    if (value) result[field] = sign * value;
+  });
+  if (rest) result.milliseconds = sign * Math.round(rest);
+  return result;
+}
+
+/**
+ * @jsonDoc
+ * @description 解析 ISO 8601 时长，如 'P1Y2M3DT4H5M6.5S'、'P2W'、'-PT30M'。只有最小的单位可以带小数，
+ * 小数的周、天、时、分、秒会换算为更小的单位（一天按 24 小时计算），秒的小数部分换算为毫秒
+ * @param {string} text - ISO 8601 时长字符串
+ * @returns {Duration} 时长，只包含字符串中出现的字段
+ * @throws {Error} 字符串格式无效或年、月带小数时抛出
+ */
+export function parseDuration(text: string): Duration {
+  const match = ISO_DURATION_REGEXP.exec(text.trim());
+  // 至少要有一个字段，T 后面也至少要有一个字段
+  if (!match || match.slice(2).every(value => value === undefined) || /T$/i.test(text.trim())) {
+    throw new Error(`无效的 ISO 8601 时长: ${text}`);
+  }
+
+  const sign = match[1] === '-' ? -1 : 1;
+  const fields: Array<keyof Duration> = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'];
+  const values = match.slice(2);
+  const lastIndex = values.reduce((last, value, index) => (value !== undefined ? index : last), -1);
+  const duration: Duration = {};
+  let fractionMs = 0;
+
+  values.forEach((value, index) => {
+    if (value === undefined) return;
+    const number = parseFloat(value.replace(',', '.'));
+    if (isNaN(number) || !/^\d+(?:[.,]\d+)?$/.test(value)) {
+      throw new Error(`无效的 ISO 8601 时长: ${text}`);
+    }
+
+    const field = fields[index];
+    const whole = Math.floor(number);
+    if (whole !== number) {
+      if (index !== lastIndex) {
+        throw new Error(`ISO 8601 时长中只有最小的单位可以带小数: ${text}`);
+      }
+      if (!FIELD_MS[field]) {
+        throw new Error(`不支持带小数的年或月: ${text}`);
+      }
+      fractionMs = Math.round((number - whole) * FIELD_MS[field]!);
+    }
+    duration[field] = sign * whole || 0;
+  });
+
+  // 小数部分拆分为更小的单位，不修改已有的整数字段
+  const fraction = splitMilliseconds(sign * fractionMs);
+  (Object.keys(fraction) as Array<keyof Duration>).forEach(field => {
+    duration[field] = (duration[field] || 0) + fraction[field]!;
+  });
+  return duration;
+}
+
+/**
+ * @jsonDoc
+ * @description 把时长序列化为 ISO 8601 字符串。所有字段都不为正数时使用 '-P' 前缀，符号不一致时各字段分别带符号；毫秒写为秒的小数
+ * @param {Duration} duration - 时长
+ * @returns {string} ISO 8601 时长字符串，时长为 0 时为 'PT0S'
+ */
+export function serializeDuration(duration: Duration): string {
+  const values = DURATION_FIELDS.map(field => duration[field] || 0);
+  const negative = values.some(value => value < 0) && values.every(value => value <= 0);
+  const [years, months, weeks, days, hours, minutes, seconds, milliseconds] = values.map(value => (negative ? -value : value));
+
+  const part = (value: number, designator: string) => (value ? `${value}${designator}` : '');
+  // 毫秒合并为秒的小数部分
+  const totalSeconds = (seconds * 1000 + milliseconds) / 1000;
+  const secondText = totalSeconds ? `${parseFloat(totalSeconds.toFixed(3))}S` : '';
+
+  const date = part(years, 'Y') + part(months, 'M') + part(weeks, 'W') + part(days, 'D');
+  const time = part(hours, 'H') + part(minutes, 'M') + secondText;
+  if (!date && !time) return 'PT0S';
+  return `${negative ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * @jsonDoc
+ * @description 规范化时长：毫秒、秒、分、时逐级进位，一天按 24 小时计算，周换算为天，月满 12 进位为年。
+ * 年月和天以下两部分各自统一符号，两部分符号不同时无法在没有参照日期的情况下互相抵消
+ * @param {Duration} duration - 时长
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.weeks=false] - 是否把天数拆分为周和天
+ * @returns {Duration} 规范化后的时长，只包含不为 0 的字段
+ */
+export function normalizeDuration(duration: Duration, options: { weeks?: boolean } = {}): Duration {
+  const totalMonths = (duration.years || 0) * 12 + (duration.months || 0);
+  const totalMs = DURATION_FIELDS
+    .filter(field => FIELD_MS[field])
+    .reduce((sum, field) => sum + (duration[field] || 0) * FIELD_MS[field]!, 0);
+
+  const result: Duration = {};
+  const years = Math.trunc(totalMonths / 12);
+  const months = totalMonths - years * 12;
+  if (years) result.years = years;
+  if (months) result.months = months;
+
+  const time = splitMilliseconds(totalMs);
+  if (options.weeks && time.days) {
+    const weeks = Math.trunc(time.days / 7);
+    const days = time.days - weeks * 7;
+    if (weeks) result.weeks = weeks;
+    time.days = days || undefined;
+  }
+  DURATION_FIELDS.forEach(field => {
+    if (time[field]) result[field] = time[field];
+  });
+  return result;
+}
+
+/**
+ * @jsonDoc
+ * @description 把时长的各字段取反
+ * @param {Duration} duration - 时长
+ * @returns {Duration} 取反后的时长
+ */
+export function negateDuration(duration: Duration): Duration {
+  const result: Duration = {};
+  DURATION_FIELDS.forEach(field => {
+    if (duration[field] !== undefined) result[field] = -duration[field]! || 0;
+  });
+  return result;
+}
+
+/**
+ * @jsonDoc
+ * @description 向日期添加时长，年、月、周、天按日历计算。年和月合并后一起添加，目标月份没有对应日期时取该月最后一天（如 1 月 31 日加 1 个月为 2 月 29 日），与 DateTime.add 和 durationBetween 一致
+ * @param {Date} date - 原始日期
+ * @param {Duration|string} duration - 时长或 ISO 8601 时长字符串
+ * @param {TimeZoneOptions} [options] - 时区选项，同 addTime
+ * @param {string} [options.timeZone] - IANA 时区名称，不传则使用本地时区
+ * @param {string} [options.disambiguation='compatible'] - 结果落在夏令时跳过或重复的时间段时的处理方式
+ * @returns {Date} 添加时长后的新日期
+ */
+export function addDuration(date: Date, duration: Duration | string, options: TimeZoneOptions = {}): Date {
+  const value = typeof duration === 'string' ? parseDuration(duration) : duration;
+  let result = new Date(date);
+
+  const months = (value.years || 0) * 12 + (value.months || 0);
+  if (months) result = dateTime(result, options).add(months, 'months').toDate();
+  if (value.weeks || value.days) result = addTime(result, (value.weeks || 0) * 7 + (value.days || 0), 'days', options);
+  if (value.hours) result = addTime(result, value.hours, 'hours', options);
+  if (value.minutes) result = addTime(result, value.minutes, 'minutes', options);
+  if (value.seconds) result = addTime(result, value.seconds, 'seconds', options);
+  if (value.milliseconds) result = new Date(result.getTime() + value.milliseconds);
+  return result;
+}
+
+/**
+ * @jsonDoc
+ * @description 从日期中减去时长
+ * @param {Date} date - 原始日期
+ * @param {Duration|string} duration - 时长或 ISO 8601 时长字符串
+ * @param {TimeZoneOptions} [options] - 时区选项，同 addTime
+ * @returns {Date} 减去时长后的新日期
+ */
+export function subtractDuration(date: Date, duration: Duration | string, options: TimeZoneOptions = {}): Date {
+  const value = typeof duration === 'string' ? parseDuration(duration) : duration;
+  return addDuration(date, negateDuration(value), options);
+}
+
+/**
+ * @jsonDoc
+ * @description 把时长换算为毫秒数。包含年或月时必须提供参照日期，天按 24 小时计算
+ * @param {Duration|string} duration - 时长或 ISO 8601 时长字符串
+ * @param {Date} [relativeTo] - 参照日期，提供时按日历计算从该日期开始经过的毫秒数
+ * @param {TimeZoneOptions} [options] - 时区选项，同 addTime
+ * @returns {number} 毫秒数
+ * @throws {Error} 包含年或月但没有提供参照日期时抛出
+ */
+export function durationToMilliseconds(duration: Duration | string, relativeTo?: Date, options: TimeZoneOptions = {}): number {
+  const value = typeof duration === 'string' ? parseDuration(duration) : duration;
+  if (relativeTo) {
+    return addDuration(relativeTo, value, options).getTime() - relativeTo.getTime();
+  }
+  if (value.years || value.months) {
+    throw new Error('包含年或月的时长需要提供参照日期');
+  }
+  return DURATION_FIELDS
+    .filter(field => FIELD_MS[field])
+    .reduce((sum, field) => sum + (value[field] || 0) * FIELD_MS[field]!, 0);
+}
+
+/**
+ * @jsonDoc
+ * @description 时间区间，包含开始时间、不包含结束时间
+ */
+export class Interval {
+  readonly start: Date;
+  readonly end: Date;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的时间区间实例
+   * @param {Date} start - 开始时间（包含）
+   * @param {Date} end - 结束时间（不包含），不能早于开始时间
+   * @throws {Error} 日期无效或结束时间早于开始时间时抛出
+   */
+  constructor(start: Date, end: Date) {
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error('时间区间的开始时间和结束时间必须是有效的日期');
+    }
+    if (end.getTime() < start.getTime()) {
+      throw new Error('时间区间的结束时间不能早于开始时间');
+    }
+    this.start = new Date(start);
+    this.end = new Date(end);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取区间的长度
+   * @param {DateTimeUnit} [unit='milliseconds'] - 单位，同 dateDiff
+   * @param {Object} [options] - 配置选项
+   * @param {boolean} [options.asFloat=false] - 是否返回小数
+   * @param {string} [options.timeZone] - 按日历计算时使用的 IANA 时区
+   * @returns {number} 区间的长度
+   */
+  length(unit: DateTimeUnit = 'milliseconds', options: { asFloat?: boolean; timeZone?: string } = {}): number {
+    return dateDiff(this.start, this.end, unit, options);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 把区间转换为时长
+   * @param {DurationBetweenOptions} [options] - 配置选项，同 durationBetween
+   * @returns {Duration} 时长
+   */
+  toDuration(options: DurationBetweenOptions = {}): Duration {
+    return durationBetween(this.start, this.end, options);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查区间长度是否为 0
+   * @returns {boolean} 如果长度为 0 则返回 true，否则返回 false
+   */
+  isEmpty(): boolean {
+    return this.start.getTime() === this.end.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查区间是否包含某个时间或另一个区间
+   * @param {Date|Interval} target - 时间或区间
+   * @returns {boolean} 如果包含则返回 true，否则返回 false
+   */
+  contains(target: Date | Interval): boolean {
+    if (target instanceof Interval) {
+      return target.start.getTime() >= this.start.getTime() && target.end.getTime() <= this.end.getTime();
+    }
+    return target.getTime() >= this.start.getTime() && target.getTime() < this.end.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否与另一个区间重叠，首尾相接不算重叠
+   * @param {Interval} other - 另一个区间
+   * @returns {boolean} 如果重叠则返回 true，否则返回 false
+   */
+  overlaps(other: Interval): boolean {
+    return this.start.getTime() < other.end.getTime() && other.start.getTime() < this.end.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否与另一个区间首尾相接
+   * @param {Interval} other - 另一个区间
+   * @returns {boolean} 如果首尾相接则返回 true，否则返回 false
+   */
+  abuts(other: Interval): boolean {
+    return this.end.getTime() === other.start.getTime() || other.end.getTime() === this.start.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取与另一个区间重叠的部分
+   * @param {Interval} other - 另一个区间
+   * @returns {Interval|null} 重叠的区间，不重叠时返回 null
+   */
+  intersection(other: Interval): Interval | null {
+    if (!this.overlaps(other)) return null;
+    const start = Math.max(this.start.getTime(), other.start.getTime());
+    const end = Math.min(this.end.getTime(), other.end.getTime());
+    return new Interval(new Date(start), new Date(end));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 按日历单位的边界拆分区间，如把跨天的日程拆分为每天一段，首尾两段可能不完整
+   * @param {DateTimeUnit} unit - 拆分的单位，如 'days'、'weeks'、'months'
+   * @param {DateTimeOptions} [options] - 配置选项，同 DateTime
+   * @param {string} [options.timeZone] - 计算边界使用的 IANA 时区，不传则使用本地时区
+   * @param {number} [options.weekStartsOn=1] - 按周拆分时每周从星期几开始
+   * @returns {Interval[]} 拆分后的区间列表
+   */
+  splitBy(unit: DateTimeUnit, options: DateTimeOptions = {}): Interval[] {
+    if (this.isEmpty()) return [new Interval(this.start, this.end)];
+
+    const result: Interval[] = [];
+    let current = this.start;
+    while (current.getTime() < this.end.getTime()) {
+      const boundary = dateTime(current, options).startOf(unit).add(1, unit).toDate();
+      const next = boundary.getTime() < this.end.getTime() ? boundary : this.end;
+      result.push(new Interval(current, next));
+      current = next;
+    }
+    return result;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查是否与另一个区间相同
+   * @param {Interval} other - 另一个区间
+   * @returns {boolean} 如果开始时间和结束时间都相同则返回 true，否则返回 false
+   */
+  equals(other: Interval): boolean {
+    return this.start.getTime() === other.start.getTime() && this.end.getTime() === other.end.getTime();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 序列化为 ISO 8601 区间字符串，如 '2024-01-01T00:00:00.000Z/2024-01-02T00:00:00.000Z'
+   * @returns {string} ISO 8601 区间字符串
+   */
+  toString(): string {
+    return `${this.start.toISOString()}/${this.end.toISOString()}`;
+  }
+
+  /**
+   * @jsonDoc
+   * @description JSON 序列化时使用 ISO 8601 区间字符串
+   * @returns {string} ISO 8601 区间字符串
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的时间区间实例
+ * @param {Date} start - 开始时间（包含）
+ * @param {Date|Duration|string} end - 结束时间（不包含），或从开始时间起的时长
+ * @param {TimeZoneOptions} [options] - 按时长计算结束时间时使用的时区选项，同 addTime
+ * @returns {Interval} 时间区间实例
+ */
+export function createInterval(start: Date, end: Date | Duration | string, options: TimeZoneOptions = {}): Interval {
+  return new Interval(start, end instanceof Date ? end : addDuration(start, end, options));
+}
+
+/**
+ * @jsonDoc
+ * @description 解析 ISO 8601 区间字符串，支持 '开始/结束'、'开始/时长' 和 '时长/结束' 三种形式
+ * @param {string} text - ISO 8601 区间字符串，如 '2024-01-01T09:00/PT1H'
+ * @param {TimeZoneOptions} [options] - 时区选项，不带偏移的时间按该时区解析
+ * @returns {Interval} 时间区间实例
+ * @throws {Error} 字符串格式无效时抛出
+ */
+export function parseInterval(text: string, options: TimeZoneOptions = {}): Interval {
+  const parts = text.trim().split('/');
+  if (parts.length !== 2) {
+    throw new Error(`无效的 ISO 8601 区间: ${text}`);
+  }
+
+  const isDuration = (value: string) => /^[+-]?P/i.test(value);
+  const parseTime = (value: string) => {
+    const date = parseDate(value, undefined, options);
+    if (isNaN(date.getTime())) {
+      throw new Error(`无效的 ISO 8601 区间: ${text}`);
+    }
+    return date;
+  };
+
+  const [first, second] = parts;
+  if (isDuration(first) && isDuration(second)) {
+    throw new Error(`无效的 ISO 8601 区间: ${text}`);
+  }
+  if (isDuration(first)) {
+    const end = parseTime(second);
+    return new Interval(subtractDuration(end, first, options), end);
+  }
+  const start = parseTime(first);
+  return new Interval(start, isDuration(second) ? addDuration(start, second, options) : parseTime(second));
+}
+
+/**
+ * @jsonDoc
+ * @description 合并重叠的区间，结果按开始时间排序
+ * @param {Interval[]} intervals - 区间列表
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.adjacent=true] - 是否同时合并首尾相接的区间
+ * @returns {Interval[]} 合并后的区间列表
+ */
+export function mergeIntervals(intervals: Interval[], options: { adjacent?: boolean } = {}): Interval[] {
+  const { adjacent = true } = options;
+  const sorted = intervals.slice().sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+  const result: Interval[] = [];
+
+  sorted.forEach(interval => {
+    const last = result[result.length - 1];
+    const canMerge = last && (adjacent
+      ? interval.start.getTime() <= last.end.getTime()
+      : interval.start.getTime() < last.end.getTime());
+    if (!canMerge) {
+      result.push(interval);
+      return;
+    }
+    if (interval.end.getTime() > last.end.getTime()) {
+      result[result.length - 1] = new Interval(last.start, interval.end);
+    }
+  });
+  return result;
+}
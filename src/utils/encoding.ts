@@ -142,6 +142,15 @@ export function decodeHex(hexStr: string): string {
   return result;
 }
 
+/**
+ * @jsonDoc
+ * @description 检查当前环境是否支持 Web Crypto API
+ * @returns {boolean} 如果支持则返回 true，否则返回 false
+ */
+export function isWebCryptoSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.crypto && !!window.crypto.subtle;
+}
+
 /**
  * @jsonDoc
  * @description 计算字符串的MD5哈希值（仅浏览器环境）
@@ -149,7 +158,7 @@ export function decodeHex(hexStr: string): string {
  * @returns {Promise<string>} MD5哈希值的Promise
  */
 export async function md5(str: string): Promise<string> {
-  if (typeof window === 'undefined' || !window.crypto || !window.crypto.subtle) {
+  if (!isWebCryptoSupported()) {
     throw new Error('当前环境不支持Web Crypto API');
   }
   
@@ -174,7 +183,7 @@ export async function md5(str: string): Promise<string> {
  * @returns {Promise<string>} SHA-1哈希值的Promise
  */
 export async function sha1(str: string): Promise<string> {
-  if (typeof window === 'undefined' || !window.crypto || !window.crypto.subtle) {
+  if (!isWebCryptoSupported()) {
     throw new Error('当前环境不支持Web Crypto API');
   }
   
@@ -196,7 +205,7 @@ export async function sha1(str: string): Promise<string> {
  * @returns {Promise<string>} SHA-256哈希值的Promise
  */
 export async function sha256(str: string): Promise<string> {
-  if (typeof window === 'undefined' || !window.crypto || !window.crypto.subtle) {
+  if (!isWebCryptoSupported()) {
     throw new Error('当前环境不支持Web Crypto API');
   }
   
@@ -286,6 +295,154 @@ export function decodePunycode(punycodeStr: string): string {
   }
 }
 
+/**
+ * 将字节数组转换为Base64字符串
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  if (typeof window !== 'undefined') {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return window.btoa(binary);
+  } else if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  throw new Error('当前环境不支持Base64编码');
+}
+
+/**
+ * 将Base64字符串转换为字节数组
+ */
+function base64ToBytes(base64Str: string): Uint8Array<ArrayBuffer> {
+  if (typeof window !== 'undefined') {
+    const binary = window.atob(base64Str);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } else if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(base64Str, 'base64'));
+  }
+  throw new Error('当前环境不支持Base64解码');
+}
+
+/**
+ * @jsonDoc
+ * @description 解密失败错误，密钥错误或密文被篡改时抛出
+ */
+export class DecryptionError extends Error {
+  /**
+   * @jsonDoc
+   * @description 创建一个新的解密失败错误
+   * @param {string} [message='解密失败：密钥错误或数据已损坏'] - 错误信息
+   */
+  constructor(message: string = '解密失败：密钥错误或数据已损坏') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 生成随机盐值
+ * @param {number} [length=16] - 盐值字节数
+ * @returns {string} Base64编码的盐值
+ */
+export function generateSalt(length: number = 16): string {
+  if (!isWebCryptoSupported()) {
+    throw new Error('当前环境不支持Web Crypto API');
+  }
+  return bytesToBase64(window.crypto.getRandomValues(new Uint8Array(length)));
+}
+
+/**
+ * @jsonDoc
+ * @description 使用 PBKDF2 从口令派生 AES-GCM 密钥
+ * @param {string} passphrase - 口令
+ * @param {string} salt - 盐值
+ * @param {number} [iterations=100000] - 迭代次数
+ * @returns {Promise<CryptoKey>} AES-GCM 256 位密钥的Promise
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: string,
+  iterations: number = 100000
+): Promise<CryptoKey> {
+  if (!isWebCryptoSupported()) {
+    throw new Error('当前环境不支持Web Crypto API');
+  }
+
+  const encoder = new TextEncoder();
+  const baseKey = await window.crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * @jsonDoc
+ * @description 使用 AES-GCM 加密字符串，随机 IV 会拼接在密文之前
+ * @param {string} plaintext - 要加密的字符串
+ * @param {CryptoKey} key - AES-GCM 密钥
+ * @returns {Promise<string>} Base64编码的 IV 与密文
+ */
+export async function encryptAESGCM(plaintext: string, key: CryptoKey): Promise<string> {
+  if (!isWebCryptoSupported()) {
+    throw new Error('当前环境不支持Web Crypto API');
+  }
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const cipherBuffer = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const result = new Uint8Array(iv.length + cipherBuffer.byteLength);
+  result.set(iv, 0);
+  result.set(new Uint8Array(cipherBuffer), iv.length);
+  return bytesToBase64(result);
+}
+
+/**
+ * @jsonDoc
+ * @description 解密 encryptAESGCM 生成的密文
+ * @param {string} payload - Base64编码的 IV 与密文
+ * @param {CryptoKey} key - AES-GCM 密钥
+ * @returns {Promise<string>} 解密后的字符串
+ * @throws {DecryptionError} 密钥错误或数据已损坏时抛出
+ */
+export async function decryptAESGCM(payload: string, key: CryptoKey): Promise<string> {
+  if (!isWebCryptoSupported()) {
+    throw new Error('当前环境不支持Web Crypto API');
+  }
+
+  try {
+    const bytes = base64ToBytes(payload);
+    const plainBuffer = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, 12) },
+      key,
+      bytes.slice(12)
+    );
+    return new TextDecoder().decode(plainBuffer);
+  } catch {
+    throw new DecryptionError();
+  }
+}
+
 /**
  * @jsonDoc
  * @description 编码类，支持链式调用多种编码方法
@@ -0,0 +1,187 @@
+import { formatDateTime, parseDate } from './date';
+
+/**
+ * @jsonDoc
+ * @description 财年配置
+ */
+export interface FiscalCalendarOptions {
+  // 财年从几月开始（1-12），如 4 表示 4 月 1 日开始
+  startMonth: number;
+  // 财年的命名方式，'start' 使用开始时的年份（如 2024 年 4 月开始的财年为 2024 财年），'end' 使用结束时的年份，默认为 'start'
+  naming?: 'start' | 'end';
+  // 判断日期时使用的 IANA 时区，不传则使用本地时区
+  timeZone?: string;
+}
+
+/**
+ * @jsonDoc
+ * @description 时间范围，包含开始时间和结束时间
+ */
+export interface FiscalPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * @jsonDoc
+ * @description 财年日历类，计算日期所在的财年、财季和财月
+ */
+export class FiscalCalendar {
+  private startMonth: number;
+  private naming: 'start' | 'end';
+  private timeZone?: string;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的财年日历实例
+   * @param {FiscalCalendarOptions} options - 财年配置
+   * @param {number} options.startMonth - 财年从几月开始（1-12）
+   * @param {string} [options.naming='start'] - 财年使用开始时的年份还是结束时的年份命名
+   * @param {string} [options.timeZone] - 判断日期时使用的 IANA 时区
+   * @throws {Error} startMonth 无效时抛出
+   */
+  constructor(options: FiscalCalendarOptions) {
+    if (!Number.isInteger(options.startMonth) || options.startMonth < 1 || options.startMonth > 12) {
+      throw new Error(`无效的财年开始月份: ${options.startMonth}`);
+    }
+    this.startMonth = options.startMonth;
+    this.naming = options.naming || 'start';
+    this.timeZone = options.timeZone;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在的财年
+   * @param {Date} date - 日期对象
+   * @returns {number} 财年
+   */
+  getFiscalYear(date: Date): number {
+    const { year, month } = this.getYearMonth(date);
+    const startYear = month >= this.startMonth ? year : year - 1;
+    // 财年从 1 月开始时与自然年相同，两种命名方式没有区别
+    return this.naming === 'end' && this.startMonth !== 1 ? startYear + 1 : startYear;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期是财年中的第几个月
+   * @param {Date} date - 日期对象
+   * @returns {number} 财月（1-12）
+   */
+  getFiscalMonth(date: Date): number {
+    return ((this.getYearMonth(date).month - this.startMonth + 12) % 12) + 1;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在的财季
+   * @param {Date} date - 日期对象
+   * @returns {number} 财季（1-4）
+   */
+  getFiscalQuarter(date: Date): number {
+    return Math.ceil(this.getFiscalMonth(date) / 3);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取财年的时间范围
+   * @param {number} fiscalYear - 财年
+   * @returns {FiscalPeriod} 财年第一天的 00:00:00 到最后一天的 23:59:59.999
+   */
+  getFiscalYearRange(fiscalYear: number): FiscalPeriod {
+    return this.getMonthRange(fiscalYear, 0, 12);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取财季的时间范围
+   * @param {number} fiscalYear - 财年
+   * @param {number} quarter - 财季（1-4）
+   * @returns {FiscalPeriod} 财季第一天的 00:00:00 到最后一天的 23:59:59.999
+   * @throws {Error} quarter 无效时抛出
+   */
+  getFiscalQuarterRange(fiscalYear: number, quarter: number): FiscalPeriod {
+    if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+      throw new Error(`无效的财季: ${quarter}`);
+    }
+    return this.getMonthRange(fiscalYear, (quarter - 1) * 3, 3);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在财年的开始时间
+   * @param {Date} date - 日期对象
+   * @returns {Date} 财年第一天的 00:00:00
+   */
+  startOfFiscalYear(date: Date): Date {
+    return this.getFiscalYearRange(this.getFiscalYear(date)).start;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在财年的结束时间
+   * @param {Date} date - 日期对象
+   * @returns {Date} 财年最后一天的 23:59:59.999
+   */
+  endOfFiscalYear(date: Date): Date {
+    return this.getFiscalYearRange(this.getFiscalYear(date)).end;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在财季的开始时间
+   * @param {Date} date - 日期对象
+   * @returns {Date} 财季第一天的 00:00:00
+   */
+  startOfFiscalQuarter(date: Date): Date {
+    return this.getFiscalQuarterRange(this.getFiscalYear(date), this.getFiscalQuarter(date)).start;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取日期所在财季的结束时间
+   * @param {Date} date - 日期对象
+   * @returns {Date} 财季最后一天的 23:59:59.999
+   */
+  endOfFiscalQuarter(date: Date): Date {
+    return this.getFiscalQuarterRange(this.getFiscalYear(date), this.getFiscalQuarter(date)).end;
+  }
+
+  /**
+   * 获取日期在日历时区中的年份和月份
+   */
+  private getYearMonth(date: Date): { year: number; month: number } {
+    const [year, month] = formatDateTime(date, 'YYYY-MM', { timeZone: this.timeZone }).split('-').map(Number);
+    return { year, month };
+  }
+
+  /**
+   * 获取财年中从第 offset 个月开始、长度为 length 个月的时间范围
+   */
+  private getMonthRange(fiscalYear: number, offset: number, length: number): FiscalPeriod {
+    const startYear = this.naming === 'end' && this.startMonth !== 1 ? fiscalYear - 1 : fiscalYear;
+    const firstMonth = startYear * 12 + this.startMonth - 1 + offset;
+    const end = this.startOfMonth(firstMonth + length);
+    return { start: this.startOfMonth(firstMonth), end: new Date(end.getTime() - 1) };
+  }
+
+  /**
+   * 获取从公元 0 年 1 月起第 index 个月的第一天 00:00:00
+   */
+  private startOfMonth(index: number): Date {
+    const year = Math.floor(index / 12);
+    const month = (index % 12) + 1;
+    const text = `${year.toString().padStart(4, '0')}-${month.toString().padStart(2, '0')}-01`;
+    return parseDate(text, 'YYYY-MM-DD', { timeZone: this.timeZone });
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的财年日历实例
+ * @param {FiscalCalendarOptions} options - 财年配置
+ * @returns {FiscalCalendar} 财年日历实例
+ */
+export function createFiscalCalendar(options: FiscalCalendarOptions): FiscalCalendar {
+  return new FiscalCalendar(options);
+}
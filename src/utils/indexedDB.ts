@@ -0,0 +1,886 @@
+import { isPlainObject } from './common';
+
+/**
+ * @jsonDoc
+ * @description 键范围描述对象，会被转换为 IDBKeyRange
+ */
+export interface IndexedDBKeyRange {
+  only?: IDBValidKey;
+  lower?: IDBValidKey;
+  upper?: IDBValidKey;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+/**
+ * @jsonDoc
+ * @description 查询条件，可以是单个键、IDBKeyRange 或键范围描述对象
+ */
+export type IndexedDBQuery = IDBValidKey | IDBKeyRange | IndexedDBKeyRange;
+
+/**
+ * @jsonDoc
+ * @description 索引配置，keyPath 为数组时创建复合索引
+ */
+export interface IndexedDBIndexConfig {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+/**
+ * @jsonDoc
+ * @description 对象仓库配置
+ */
+export interface IndexedDBStoreConfig {
+  keyPath?: string | string[] | null;
+  autoIncrement?: boolean;
+  indexes?: IndexedDBIndexConfig[];
+}
+
+/**
+ * @jsonDoc
+ * @description 单个版本的迁移步骤，升级时按版本号从小到大依次执行
+ */
+export interface IndexedDBMigration {
+  // 迁移完成后的数据库版本
+  version: number;
+  // 需要创建的对象仓库，已存在的仓库只补充缺少的索引
+  stores?: Record<string, IndexedDBStoreConfig>;
+  // 需要删除的对象仓库
+  deleteStores?: string[];
+  // 需要删除的索引，键为仓库名称
+  deleteIndexes?: Record<string, string[]>;
+  // 自定义升级逻辑，在结构变更之后、数据转换之前执行
+  upgrade?: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+  // 数据转换函数，键为仓库名称；返回 undefined 保持原记录，返回 null 删除记录
+  transform?: Record<string, (value: any) => any>;
+}
+
+/**
+ * @jsonDoc
+ * @description IndexedDB 客户端配置
+ */
+export interface IndexedDBOptions {
+  // 数据库版本，默认为迁移步骤中的最大版本号或 1
+  version?: number;
+  stores?: Record<string, IndexedDBStoreConfig>;
+  migrations?: IndexedDBMigration[];
+  // 升级被其他标签页中未关闭的连接阻塞时调用
+  onBlocked?: (event: IDBVersionChangeEvent) => void;
+  // 其他标签页请求升级数据库时调用，当前连接会先被关闭
+  onVersionChange?: (event: IDBVersionChangeEvent) => void;
+}
+
+/**
+ * @jsonDoc
+ * @description 批量事务中的单个操作
+ */
+export type IndexedDBBatchOperation =
+  | { type: 'put' | 'add'; store: string; value: any; key?: IDBValidKey }
+  | { type: 'delete'; store: string; key: IndexedDBQuery }
+  | { type: 'clear'; store: string };
+
+/**
+ * @jsonDoc
+ * @description 游标遍历选项
+ */
+export interface IndexedDBIterateOptions {
+  query?: IndexedDBQuery | null;
+  direction?: IDBCursorDirection;
+  mode?: IDBTransactionMode;
+}
+
+/**
+ * @jsonDoc
+ * @description 分页游标，记录上一页最后一条记录的索引键和主键
+ */
+export interface IndexedDBPageCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+/**
+ * @jsonDoc
+ * @description 条件查询选项
+ */
+export interface IndexedDBQueryOptions<T = any> {
+  // 使用的索引名称，不传则按主键查询
+  index?: string;
+  // 等值查询，复合索引传入数组
+  equals?: IDBValidKey;
+  // 范围查询
+  range?: IndexedDBKeyRange | IDBKeyRange;
+  // 排序方向
+  order?: 'asc' | 'desc';
+  // 最多返回的记录数
+  limit?: number;
+  // 跳过的记录数
+  offset?: number;
+  // 从该游标之后继续查询，用于分页
+  after?: IndexedDBPageCursor | null;
+  // 额外的过滤函数
+  filter?: (value: T) => boolean;
+}
+
+/**
+ * @jsonDoc
+ * @description 条件查询结果
+ */
+export interface IndexedDBPage<T> {
+  items: T[];
+  // 下一页的游标，没有更多数据时为 null
+  nextCursor: IndexedDBPageCursor | null;
+}
+
+/**
+ * @jsonDoc
+ * @description 根据键范围描述创建 IDBKeyRange
+ * @param {IndexedDBKeyRange} range - 键范围描述
+ * @returns {IDBKeyRange} 对应的 IDBKeyRange 对象
+ */
+export function createKeyRange(range: IndexedDBKeyRange): IDBKeyRange {
+  const { only, lower, upper, lowerOpen = false, upperOpen = false } = range;
+
+  if (only !== undefined) {
+    return IDBKeyRange.only(only);
+  }
+  if (lower !== undefined && upper !== undefined) {
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  }
+  if (lower !== undefined) {
+    return IDBKeyRange.lowerBound(lower, lowerOpen);
+  }
+  if (upper !== undefined) {
+    return IDBKeyRange.upperBound(upper, upperOpen);
+  }
+
+  throw new Error('键范围至少需要指定 only、lower 或 upper 之一');
+}
+
+// 带过期时间的记录中用于保存过期时间和滑动过期时长的字段
+const EXPIRY_FIELD = '__expiry';
+const TTL_FIELD = '__ttl';
+
+/**
+ * 判断记录是否已过期
+ */
+function isRecordExpired(record: any): boolean {
+  return record !== null && typeof record === 'object' && typeof record[EXPIRY_FIELD] === 'number'
+    && Date.now() > record[EXPIRY_FIELD];
+}
+
+/**
+ * 移除记录中的过期时间字段
+ */
+function stripExpiryFields<T>(record: any): T {
+  if (record === null || typeof record !== 'object' || !(EXPIRY_FIELD in record)) return record;
+  const { [EXPIRY_FIELD]: _expiry, [TTL_FIELD]: _ttl, ...rest } = record;
+  return rest as T;
+}
+
+/**
+ * 将查询条件转换为 IndexedDB 原生可接受的参数
+ */
+function toIDBQuery(query?: IndexedDBQuery | null): IDBValidKey | IDBKeyRange | undefined {
+  if (query === undefined || query === null) return undefined;
+  if (isPlainObject(query)) {
+    return createKeyRange(query as IndexedDBKeyRange);
+  }
+  return query as IDBValidKey | IDBKeyRange;
+}
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务完成，事务出错或中止时 reject
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB 事务已中止'));
+  });
+}
+
+/**
+ * 创建对象仓库（如不存在）并补充缺少的索引
+ */
+function ensureStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  storeName: string,
+  config: IndexedDBStoreConfig
+): void {
+  const { keyPath = 'id', autoIncrement = true, indexes = [] } = config;
+  const store = db.objectStoreNames.contains(storeName)
+    ? transaction.objectStore(storeName)
+    : db.createObjectStore(storeName, { keyPath, autoIncrement });
+
+  indexes.forEach(({ name, keyPath: indexKeyPath, unique = false, multiEntry = false }) => {
+    if (!store.indexNames.contains(name)) {
+      store.createIndex(name, indexKeyPath, { unique, multiEntry });
+    }
+  });
+}
+
+/**
+ * 使用游标逐条转换仓库中的记录，完成后调用 onDone
+ */
+function transformStore(
+  store: IDBObjectStore,
+  transform: (value: any) => any,
+  onDone: () => void,
+  onError: (error: unknown) => void
+): void {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      onDone();
+      return;
+    }
+
+    try {
+      const result = transform(cursor.value);
+      if (result === null) {
+        cursor.delete();
+      } else if (result !== undefined) {
+        cursor.update(result);
+      }
+      cursor.continue();
+    } catch (error) {
+      onError(error);
+    }
+  };
+}
+
+/**
+ * 按顺序执行迁移步骤，每一步的数据转换完成后才开始下一步
+ */
+function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  migrations: IndexedDBMigration[],
+  oldVersion: number,
+  onDone: () => void
+): void {
+  const abort = (error: unknown) => {
+    console.error('IndexedDB 迁移失败:', error);
+    transaction.abort();
+  };
+
+  const runStep = (index: number) => {
+    if (index >= migrations.length) {
+      onDone();
+      return;
+    }
+
+    const migration = migrations[index];
+    try {
+      (migration.deleteStores || []).forEach(storeName => {
+        if (db.objectStoreNames.contains(storeName)) {
+          db.deleteObjectStore(storeName);
+        }
+      });
+
+      Object.entries(migration.stores || {}).forEach(([storeName, config]) => {
+        ensureStore(db, transaction, storeName, config);
+      });
+
+      Object.entries(migration.deleteIndexes || {}).forEach(([storeName, indexNames]) => {
+        const store = transaction.objectStore(storeName);
+        indexNames.forEach(indexName => {
+          if (store.indexNames.contains(indexName)) {
+            store.deleteIndex(indexName);
+          }
+        });
+      });
+
+      if (migration.upgrade) {
+        migration.upgrade(db, transaction, oldVersion);
+      }
+    } catch (error) {
+      abort(error);
+      return;
+    }
+
+    const transforms = Object.entries(migration.transform || {});
+    const runTransform = (transformIndex: number) => {
+      if (transformIndex >= transforms.length) {
+        runStep(index + 1);
+        return;
+      }
+
+      const [storeName, transform] = transforms[transformIndex];
+      try {
+        transformStore(transaction.objectStore(storeName), transform, () => runTransform(transformIndex + 1), abort);
+      } catch (error) {
+        abort(error);
+      }
+    };
+
+    runTransform(0);
+  };
+
+  runStep(0);
+}
+
+/**
+ * 校验并按版本号排序迁移步骤
+ */
+function sortMigrations(migrations: IndexedDBMigration[]): IndexedDBMigration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`无效的迁移版本号: ${migration.version}`);
+    }
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new Error(`重复的迁移版本号: ${migration.version}`);
+    }
+  });
+
+  return sorted;
+}
+
+/**
+ * @jsonDoc
+ * @description IndexedDB 客户端类，复用同一个数据库连接并提供完整的增删改查操作
+ */
+export class IndexedDBClient {
+  private dbName: string;
+  private options: IndexedDBOptions;
+  private db: IDBDatabase | null = null;
+  private opening: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的 IndexedDB 客户端实例
+   * @param {string} dbName - 数据库名称
+   * @param {IndexedDBOptions} [options] - 配置选项
+   * @param {number} [options.version] - 数据库版本，默认为迁移步骤中的最大版本号或 1
+   * @param {Object} [options.stores] - 需要创建的对象仓库，键为仓库名称
+   * @param {IndexedDBMigration[]} [options.migrations] - 版本迁移步骤
+   * @param {Function} [options.onBlocked] - 升级被其他连接阻塞时的回调
+   * @param {Function} [options.onVersionChange] - 其他标签页升级数据库时的回调
+   */
+  constructor(dbName: string, options: IndexedDBOptions = {}) {
+    this.dbName = dbName;
+    this.options = options;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 打开数据库连接，多次调用会复用同一个连接
+   * @returns {Promise<IDBDatabase>} 数据库连接
+   */
+  open(): Promise<IDBDatabase> {
+    if (this.db) return Promise.resolve(this.db);
+    if (this.opening) return this.opening;
+
+    const { stores = {}, onBlocked, onVersionChange } = this.options;
+    let migrations: IndexedDBMigration[];
+    try {
+      migrations = sortMigrations(this.options.migrations || []);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 1;
+    const version = this.options.version ?? latestVersion;
+    if (version < latestVersion) {
+      return Promise.reject(new Error(`数据库版本 ${version} 低于迁移步骤的最大版本 ${latestVersion}`));
+    }
+
+    this.opening = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, version);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        const pending = migrations.filter(
+          migration => migration.version > event.oldVersion && migration.version <= version
+        );
+
+        runMigrations(db, transaction, pending, event.oldVersion, () => {
+          Object.entries(stores).forEach(([storeName, config]) => {
+            ensureStore(db, transaction, storeName, config);
+          });
+        });
+      };
+
+      request.onblocked = (event) => {
+        if (onBlocked) {
+          onBlocked(event);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // 连接被浏览器关闭时重置状态，下次调用时重新打开
+        db.onclose = () => {
+          this.db = null;
+        };
+        // 其他标签页升级数据库时主动关闭连接，避免阻塞对方
+        db.onversionchange = (event) => {
+          db.close();
+          this.db = null;
+          if (onVersionChange) {
+            onVersionChange(event);
+          }
+        };
+        this.db = db;
+        this.opening = null;
+        resolve(db);
+      };
+
+      request.onerror = () => {
+        this.opening = null;
+        reject(request.error);
+      };
+    });
+
+    return this.opening;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 关闭数据库连接
+   * @returns {void}
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * 在单个对象仓库上执行一次请求，并在事务完成后返回结果
+   */
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, mode);
+    const done = transactionToPromise(transaction);
+    const request = fn(transaction.objectStore(storeName));
+    const [result] = await Promise.all([requestToPromise(request), done]);
+    return result;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 根据主键获取单条记录
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQuery} key - 主键或键范围
+   * @returns {Promise<T|undefined>} 记录，不存在时为 undefined
+   */
+  get<T = any>(storeName: string, key: IndexedDBQuery): Promise<T | undefined> {
+    return this.run(storeName, 'readonly', store => store.get(toIDBQuery(key)!));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取多条记录
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQuery} [query] - 主键或键范围，不传则获取全部
+   * @param {number} [count] - 最多返回的记录数
+   * @returns {Promise<T[]>} 记录数组
+   */
+  getAll<T = any>(storeName: string, query?: IndexedDBQuery | null, count?: number): Promise<T[]> {
+    return this.run(storeName, 'readonly', store => store.getAll(toIDBQuery(query), count));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取多条记录的主键
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQuery} [query] - 主键或键范围，不传则获取全部
+   * @param {number} [count] - 最多返回的主键数
+   * @returns {Promise<IDBValidKey[]>} 主键数组
+   */
+  getAllKeys(storeName: string, query?: IndexedDBQuery | null, count?: number): Promise<IDBValidKey[]> {
+    return this.run(storeName, 'readonly', store => store.getAllKeys(toIDBQuery(query), count));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 写入记录，主键已存在时覆盖
+   * @param {string} storeName - 对象仓库名称
+   * @param {any} value - 要写入的记录
+   * @param {IDBValidKey} [key] - 主键，仅在仓库未设置 keyPath 时使用
+   * @returns {Promise<IDBValidKey>} 写入记录的主键
+   */
+  put(storeName: string, value: any, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.run(storeName, 'readwrite', store => store.put(value, key));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 写入带过期时间的记录，过期时间保存在记录的 __expiry 字段中
+   * @param {string} storeName - 对象仓库名称
+   * @param {Object} value - 要写入的记录，必须是对象
+   * @param {number} expiryInSeconds - 过期时间（秒）
+   * @param {Object} [options] - 配置选项
+   * @param {IDBValidKey} [options.key] - 主键，仅在仓库未设置 keyPath 时使用
+   * @param {boolean} [options.sliding=false] - 是否启用滑动过期，每次读取都会重新计算过期时间
+   * @returns {Promise<IDBValidKey>} 写入记录的主键
+   */
+  putWithExpiry(
+    storeName: string,
+    value: Record<string, any>,
+    expiryInSeconds: number,
+    options: { key?: IDBValidKey; sliding?: boolean } = {}
+  ): Promise<IDBValidKey> {
+    const ttl = expiryInSeconds * 1000;
+    const record: Record<string, any> = { ...value, [EXPIRY_FIELD]: Date.now() + ttl };
+    if (options.sliding) {
+      record[TTL_FIELD] = ttl;
+    }
+    return this.put(storeName, record, options.key);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取带过期时间的记录，已过期时删除并返回 undefined，滑动过期的记录会被续期
+   * @param {string} storeName - 对象仓库名称
+   * @param {IDBValidKey} key - 主键
+   * @returns {Promise<T|undefined>} 去掉过期时间字段后的记录
+   */
+  async getWithExpiry<T = any>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const record = await this.get(storeName, key);
+    if (record === undefined) return undefined;
+
+    if (isRecordExpired(record)) {
+      await this.delete(storeName, key);
+      return undefined;
+    }
+
+    if (typeof record[TTL_FIELD] === 'number') {
+      const refreshed = { ...record, [EXPIRY_FIELD]: Date.now() + record[TTL_FIELD] };
+      // 使用内联主键的仓库不能再额外传入主键
+      await this.run(storeName, 'readwrite', store => store.put(refreshed, store.keyPath !== null ? undefined : key));
+    }
+
+    return stripExpiryFields<T>(record);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 删除对象仓库中所有已过期的记录
+   * @param {string} storeName - 对象仓库名称
+   * @returns {Promise<number>} 删除的记录数
+   */
+  async purgeExpired(storeName: string): Promise<number> {
+    let removed = 0;
+    await this.iterate(storeName, (value, _key, cursor) => {
+      if (isRecordExpired(value)) {
+        cursor.delete();
+        removed++;
+      }
+    }, { mode: 'readwrite' });
+    return removed;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 新增记录，主键已存在时失败
+   * @param {string} storeName - 对象仓库名称
+   * @param {any} value - 要新增的记录
+   * @param {IDBValidKey} [key] - 主键，仅在仓库未设置 keyPath 时使用
+   * @returns {Promise<IDBValidKey>} 新增记录的主键
+   */
+  add(storeName: string, value: any, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.run(storeName, 'readwrite', store => store.add(value, key));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 删除记录
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQuery} key - 主键或键范围
+   * @returns {Promise<void>}
+   */
+  delete(storeName: string, key: IndexedDBQuery): Promise<void> {
+    return this.run(storeName, 'readwrite', store => store.delete(toIDBQuery(key)!));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清空对象仓库中的所有记录
+   * @param {string} storeName - 对象仓库名称
+   * @returns {Promise<void>}
+   */
+  clear(storeName: string): Promise<void> {
+    return this.run(storeName, 'readwrite', store => store.clear());
+  }
+
+  /**
+   * @jsonDoc
+   * @description 统计记录数量
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQuery} [query] - 主键或键范围，不传则统计全部
+   * @returns {Promise<number>} 记录数量
+   */
+  count(storeName: string, query?: IndexedDBQuery | null): Promise<number> {
+    return this.run(storeName, 'readonly', store => store.count(toIDBQuery(query)));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 使用游标遍历记录，回调返回 false 时停止遍历
+   * @param {string} storeName - 对象仓库名称
+   * @param {Function} callback - 每条记录的回调函数，参数为记录值、主键和游标
+   * @param {IndexedDBIterateOptions} [options] - 遍历选项
+   * @param {IndexedDBQuery} [options.query] - 主键或键范围
+   * @param {string} [options.direction='next'] - 遍历方向
+   * @param {string} [options.mode='readonly'] - 事务模式，需要通过游标修改记录时使用 'readwrite'
+   * @returns {Promise<void>}
+   */
+  async iterate<T = any>(
+    storeName: string,
+    callback: (value: T, key: IDBValidKey, cursor: IDBCursorWithValue) => boolean | void,
+    options: IndexedDBIterateOptions = {}
+  ): Promise<void> {
+    const { query, direction = 'next', mode = 'readonly' } = options;
+    const db = await this.open();
+    const transaction = db.transaction(storeName, mode);
+    const done = transactionToPromise(transaction);
+    const request = transaction.objectStore(storeName).openCursor(toIDBQuery(query), direction);
+
+    const iteration = new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        try {
+          if (callback(cursor.value, cursor.primaryKey, cursor) === false) {
+            resolve();
+            return;
+          }
+          cursor.continue();
+        } catch (error) {
+          transaction.abort();
+          reject(error);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    await Promise.all([iteration, done]);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 按索引查询第一条匹配的记录
+   * @param {string} storeName - 对象仓库名称
+   * @param {string} indexName - 索引名称
+   * @param {IndexedDBQuery} key - 索引键或键范围
+   * @returns {Promise<T|undefined>} 记录，不存在时为 undefined
+   */
+  getByIndex<T = any>(storeName: string, indexName: string, key: IndexedDBQuery): Promise<T | undefined> {
+    return this.run(storeName, 'readonly', store => store.index(indexName).get(toIDBQuery(key)!));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 按索引获取所有匹配的记录
+   * @param {string} storeName - 对象仓库名称
+   * @param {string} indexName - 索引名称
+   * @param {IndexedDBQuery} [query] - 索引键或键范围，不传则获取全部
+   * @param {number} [count] - 最多返回的记录数
+   * @returns {Promise<T[]>} 记录数组
+   */
+  getAllByIndex<T = any>(
+    storeName: string,
+    indexName: string,
+    query?: IndexedDBQuery | null,
+    count?: number
+  ): Promise<T[]> {
+    return this.run(storeName, 'readonly', store => store.index(indexName).getAll(toIDBQuery(query), count));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 条件查询，支持索引、等值与范围过滤、排序、limit/offset 以及基于游标的分页
+   * @param {string} storeName - 对象仓库名称
+   * @param {IndexedDBQueryOptions} [options] - 查询选项
+   * @param {string} [options.index] - 索引名称，不传则按主键查询
+   * @param {IDBValidKey} [options.equals] - 等值查询的键
+   * @param {IndexedDBKeyRange} [options.range] - 范围查询
+   * @param {string} [options.order='asc'] - 排序方向，'asc' 或 'desc'
+   * @param {number} [options.limit] - 最多返回的记录数
+   * @param {number} [options.offset=0] - 跳过的记录数
+   * @param {IndexedDBPageCursor} [options.after] - 上一页返回的 nextCursor
+   * @param {Function} [options.filter] - 额外的过滤函数
+   * @returns {Promise<IndexedDBPage<T>>} 查询结果及下一页游标
+   */
+  async query<T = any>(storeName: string, options: IndexedDBQueryOptions<T> = {}): Promise<IndexedDBPage<T>> {
+    const { index, equals, range, order = 'asc', limit, offset = 0, after, filter } = options;
+    const direction: IDBCursorDirection = order === 'desc' ? 'prev' : 'next';
+    const sign = order === 'desc' ? -1 : 1;
+    const keyRange = equals !== undefined ? IDBKeyRange.only(equals) : toIDBQuery(range);
+    if (limit !== undefined && limit <= 0) {
+      return { items: [], nextCursor: null };
+    }
+
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readonly');
+    const done = transactionToPromise(transaction);
+    const store = transaction.objectStore(storeName);
+    const source = index ? store.index(index) : store;
+    const request = source.openCursor(keyRange, direction);
+
+    const items: T[] = [];
+    let lastCursor: IndexedDBPageCursor | null = null;
+    let hasMore = false;
+    let skipped = 0;
+
+    const collecting = new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        try {
+          if (after) {
+            // 比较当前位置与分页游标，尚未越过游标时跳转到游标位置
+            let position = indexedDB.cmp(cursor.key, after.key) * sign;
+            if (position === 0) {
+              position = indexedDB.cmp(cursor.primaryKey, after.primaryKey) * sign;
+            }
+            if (position < 0) {
+              if (index) {
+                cursor.continuePrimaryKey(after.key, after.primaryKey);
+              } else {
+                cursor.continue(after.key);
+              }
+              return;
+            }
+            if (position === 0) {
+              cursor.continue();
+              return;
+            }
+          }
+
+          const value = cursor.value as T;
+          if (!filter || filter(value)) {
+            if (skipped < offset) {
+              skipped++;
+            } else if (limit !== undefined && items.length >= limit) {
+              // 相当于读取 limit + 1 条记录，取满一页后还有符合条件的记录时才返回下一页游标
+              hasMore = true;
+              resolve();
+              return;
+            } else {
+              items.push(value);
+              lastCursor = { key: cursor.key, primaryKey: cursor.primaryKey };
+            }
+          }
+          cursor.continue();
+        } catch (error) {
+          transaction.abort();
+          reject(error);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    await Promise.all([collecting, done]);
+
+    return {
+      items,
+      nextCursor: hasMore ? lastCursor : null
+    };
+  }
+
+  /**
+   * @jsonDoc
+   * @description 在一个事务中执行自定义操作，事务完成后返回回调结果
+   * @param {string|string[]} storeNames - 事务涉及的对象仓库名称
+   * @param {string} mode - 事务模式，'readonly' 或 'readwrite'
+   * @param {Function} fn - 接收事务对象的回调函数，只能同步发起请求
+   * @returns {Promise<T>} 回调函数的返回值
+   */
+  async transaction<T>(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    fn: (transaction: IDBTransaction) => T
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(storeNames, mode);
+    const done = transactionToPromise(transaction);
+
+    let result: T;
+    try {
+      result = fn(transaction);
+    } catch (error) {
+      transaction.abort();
+      done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+    return result;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 在同一个事务中批量执行多条写操作，任意一条失败则全部回滚
+   * @param {IndexedDBBatchOperation[]} operations - 操作列表
+   * @returns {Promise<void>}
+   */
+  batch(operations: IndexedDBBatchOperation[]): Promise<void> {
+    const storeNames = Array.from(new Set(operations.map(operation => operation.store)));
+    if (storeNames.length === 0) return Promise.resolve();
+
+    return this.transaction(storeNames, 'readwrite', transaction => {
+      operations.forEach(operation => {
+        const store = transaction.objectStore(operation.store);
+        switch (operation.type) {
+          case 'put':
+            store.put(operation.value, operation.key);
+            break;
+          case 'add':
+            store.add(operation.value, operation.key);
+            break;
+          case 'delete':
+            store.delete(toIDBQuery(operation.key)!);
+            break;
+          case 'clear':
+            store.clear();
+            break;
+        }
+      });
+    });
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的 IndexedDB 客户端实例
+ * @param {string} dbName - 数据库名称
+ * @param {IndexedDBOptions} [options] - 配置选项
+ * @returns {IndexedDBClient} IndexedDB 客户端实例
+ */
+export function createIndexedDB(dbName: string, options: IndexedDBOptions = {}): IndexedDBClient {
+  return new IndexedDBClient(dbName, options);
+}
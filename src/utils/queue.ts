@@ -0,0 +1,481 @@
+import { isOnline, watchOnlineStatus } from './browser';
+import { retry } from './common';
+import { IndexedDBClient } from './indexedDB';
+
+const JOBS_STORE = 'jobs';
+const DEAD_LETTERS_STORE = 'deadLetters';
+// 重试等待期间队列停止或网络断开时中断重试，不计入失败次数
+const PAUSED = new Error('离线队列已暂停');
+
+/**
+ * @jsonDoc
+ * @description 离线队列中的任务，所有字段都会持久化到 IndexedDB，payload 需要能被结构化克隆
+ */
+export interface OfflineJob<T = any> {
+  // 自增主键，决定任务的执行顺序
+  id?: number;
+  // 任务类型，对应注册的处理函数
+  type: string;
+  payload: T;
+  // 已失败的次数
+  attempts: number;
+  // 最大重试次数，超出后任务进入死信队列
+  maxRetries: number;
+  createdAt: number;
+  // 下次可以执行的时间戳
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * @jsonDoc
+ * @description 死信队列中的任务
+ */
+export interface OfflineDeadLetter<T = any> extends OfflineJob<T> {
+  failedAt: number;
+}
+
+/**
+ * @jsonDoc
+ * @description 任务处理函数，返回的 Promise 被拒绝时视为执行失败
+ */
+export type OfflineJobHandler<T = any> = (payload: T, job: OfflineJob<T>) => Promise<any>;
+
+/**
+ * @jsonDoc
+ * @description 队列执行进度，统计从开始执行到队列清空之间的任务
+ */
+export interface OfflineQueueProgress {
+  completed: number;
+  failed: number;
+  pending: number;
+  total: number;
+}
+
+/**
+ * @jsonDoc
+ * @description 离线队列事件及其数据
+ */
+export interface OfflineQueueEvents {
+  enqueue: OfflineJob;
+  start: OfflineJob;
+  success: { job: OfflineJob; result: any };
+  retry: { job: OfflineJob; error: any; delay: number };
+  dead: { job: OfflineDeadLetter; error: any };
+  progress: OfflineQueueProgress;
+  drain: OfflineQueueProgress;
+}
+
+/**
+ * @jsonDoc
+ * @description 离线队列配置
+ */
+export interface OfflineQueueOptions {
+  // 数据库名称，默认为 'fs-utils-queue'
+  dbName?: string;
+  // 任务处理函数，键为任务类型
+  handlers?: Record<string, OfflineJobHandler>;
+  // 默认最大重试次数，默认为 3
+  maxRetries?: number;
+  // 退避配置，第 n 次失败后等待 delay * factor^(n - 1) 毫秒，不超过 maxDelay
+  backoff?: { delay?: number; factor?: number; maxDelay?: number };
+  // 判断失败的任务是否需要重试，返回 false 时直接进入死信队列
+  shouldRetry?: (error: any, job: OfflineJob) => boolean;
+  // 是否在创建后立即开始监听网络状态并执行任务，默认为 true
+  autoStart?: boolean;
+}
+
+/**
+ * 获取错误信息
+ */
+function getErrorMessage(error: any): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * @jsonDoc
+ * @description 持久化到 IndexedDB 的离线任务队列。网络在线时按入队顺序依次执行任务，失败的任务按退避时间重试，超出重试次数后进入死信队列。
+ * 未注册处理函数的任务会停留在队列头部，后面的任务也会等待，直到通过 register 注册对应的处理函数
+ */
+export class OfflineQueue {
+  private client: IndexedDBClient;
+  private dbName: string;
+  private handlers: Record<string, OfflineJobHandler>;
+  private options: OfflineQueueOptions;
+  private listeners: { [K in keyof OfflineQueueEvents]?: Array<(data: OfflineQueueEvents[K]) => void> } = {};
+  private processing: Promise<void> | null = null;
+  // 执行过程中再次请求执行时，在本轮结束后重新执行一次
+  private rerun = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unwatch: (() => void) | null = null;
+  private running = false;
+  // 当前一轮执行的进度，队列清空后重新统计
+  private progress: OfflineQueueProgress | null = null;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的离线队列实例
+   * @param {OfflineQueueOptions} [options] - 配置选项
+   * @param {string} [options.dbName='fs-utils-queue'] - 数据库名称
+   * @param {Object} [options.handlers] - 任务处理函数，键为任务类型
+   * @param {number} [options.maxRetries=3] - 默认最大重试次数
+   * @param {Object} [options.backoff] - 退避配置，默认 { delay: 1000, factor: 2, maxDelay: 60000 }
+   * @param {Function} [options.shouldRetry] - 判断失败的任务是否需要重试
+   * @param {boolean} [options.autoStart=true] - 是否立即开始监听网络状态并执行任务
+   */
+  constructor(options: OfflineQueueOptions = {}) {
+    this.options = options;
+    this.dbName = options.dbName || 'fs-utils-queue';
+    this.handlers = { ...options.handlers };
+    this.client = new IndexedDBClient(this.dbName, {
+      stores: {
+        [JOBS_STORE]: { keyPath: 'id', autoIncrement: true },
+        [DEAD_LETTERS_STORE]: { keyPath: 'id' }
+      }
+    });
+
+    if (options.autoStart !== false) {
+      this.start();
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 注册任务处理函数，队列已启动时会继续执行因缺少处理函数而等待的任务
+   * @param {string} type - 任务类型
+   * @param {OfflineJobHandler} handler - 处理函数
+   * @returns {OfflineQueue} 当前实例，支持链式调用
+   */
+  register<T = any>(type: string, handler: OfflineJobHandler<T>): OfflineQueue {
+    this.handlers[type] = handler;
+
+    if (this.running) {
+      this.process();
+    }
+    return this;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 监听队列事件
+   * @param {string} event - 事件名称：'enqueue'、'start'、'success'、'retry'、'dead'、'progress'、'drain'
+   * @param {Function} listener - 事件回调
+   * @returns {Function} 取消监听的函数
+   */
+  on<K extends keyof OfflineQueueEvents>(event: K, listener: (data: OfflineQueueEvents[K]) => void): () => void {
+    const listeners = (this.listeners[event] || (this.listeners[event] = [])) as Array<(data: OfflineQueueEvents[K]) => void>;
+    listeners.push(listener);
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * @jsonDoc
+   * @description 添加任务到队列末尾，网络在线时会立即开始执行
+   * @param {string} type - 任务类型
+   * @param {any} payload - 任务数据，需要能被结构化克隆
+   * @param {Object} [options] - 配置选项
+   * @param {number} [options.maxRetries] - 该任务的最大重试次数，默认使用队列配置
+   * @returns {Promise<OfflineJob>} 入队后的任务
+   */
+  async enqueue<T = any>(type: string, payload: T, options: { maxRetries?: number } = {}): Promise<OfflineJob<T>> {
+    const now = Date.now();
+    const job: OfflineJob<T> = {
+      type,
+      payload,
+      attempts: 0,
+      maxRetries: options.maxRetries ?? this.options.maxRetries ?? 3,
+      createdAt: now,
+      nextAttemptAt: now
+    };
+    job.id = (await this.client.add(JOBS_STORE, job)) as number;
+    this.emit('enqueue', job);
+
+    if (this.running) {
+      this.process();
+    }
+    return job;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 开始监听网络状态，在线时执行队列中的任务
+   * @returns {void}
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.unwatch = watchOnlineStatus(() => this.process(), () => this.clearTimer());
+
+    if (isOnline()) {
+      this.process();
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 停止执行任务，正在执行的任务会继续完成
+   * @returns {void}
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+    if (this.unwatch) {
+      this.unwatch();
+      this.unwatch = null;
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 立即按顺序执行队列中的任务，失败的任务在本轮内等待退避后重试，直到队列为空、网络断开、遇到上次执行时留下退避时间的任务或未注册处理函数的任务。队列未启动时不会执行
+   * @returns {Promise<void>}
+   */
+  process(): Promise<void> {
+    if (this.processing) {
+      this.rerun = true;
+      return this.processing;
+    }
+
+    this.clearTimer();
+    this.processing = this.withLock(() => this.drain())
+      .catch(error => {
+        console.error('执行离线队列任务失败:', error);
+      })
+      .finally(() => {
+        this.processing = null;
+        if (this.rerun) {
+          this.rerun = false;
+          this.process();
+        }
+      });
+    return this.processing;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取队列中等待执行的任务
+   * @returns {Promise<OfflineJob[]>} 按执行顺序排列的任务
+   */
+  getJobs(): Promise<OfflineJob[]> {
+    return this.client.getAll<OfflineJob>(JOBS_STORE);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取队列中等待执行的任务数量
+   * @returns {Promise<number>} 任务数量
+   */
+  size(): Promise<number> {
+    return this.client.count(JOBS_STORE);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 从队列中移除任务
+   * @param {number} id - 任务 ID
+   * @returns {Promise<void>}
+   */
+  remove(id: number): Promise<void> {
+    return this.client.delete(JOBS_STORE, id);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取死信队列中的任务
+   * @returns {Promise<OfflineDeadLetter[]>} 死信任务
+   */
+  getDeadLetters(): Promise<OfflineDeadLetter[]> {
+    return this.client.getAll<OfflineDeadLetter>(DEAD_LETTERS_STORE);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 将死信任务重新加入队列末尾，重试次数清零
+   * @param {number} id - 死信任务 ID
+   * @returns {Promise<OfflineJob|null>} 重新入队的任务，死信任务不存在时返回 null
+   */
+  async retryDeadLetter(id: number): Promise<OfflineJob | null> {
+    const deadLetter = await this.client.get<OfflineDeadLetter>(DEAD_LETTERS_STORE, id);
+    if (!deadLetter) return null;
+
+    await this.client.delete(DEAD_LETTERS_STORE, id);
+    return this.enqueue(deadLetter.type, deadLetter.payload, { maxRetries: deadLetter.maxRetries });
+  }
+
+  /**
+   * @jsonDoc
+   * @description 删除死信任务
+   * @param {number} id - 死信任务 ID
+   * @returns {Promise<void>}
+   */
+  removeDeadLetter(id: number): Promise<void> {
+    return this.client.delete(DEAD_LETTERS_STORE, id);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清空死信队列
+   * @returns {Promise<void>}
+   */
+  clearDeadLetters(): Promise<void> {
+    return this.client.clear(DEAD_LETTERS_STORE);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 停止队列并关闭数据库连接
+   * @returns {void}
+   */
+  close(): void {
+    this.stop();
+    this.client.close();
+  }
+
+  /**
+   * 依次执行队列头部的任务
+   */
+  private async drain(): Promise<void> {
+    if (!this.progress) {
+      const pending = await this.size();
+      this.progress = { completed: 0, failed: 0, pending, total: pending };
+    }
+    const progress = this.progress;
+
+    while (this.running && isOnline()) {
+      const { items } = await this.client.query<OfflineJob>(JOBS_STORE, { limit: 1 });
+      const job = items[0];
+      if (!job) {
+        this.progress = null;
+        this.emit('drain', { ...progress });
+        return;
+      }
+
+      // 队列头部的任务还在退避中，为保证顺序后面的任务也要等待
+      const wait = job.nextAttemptAt - Date.now();
+      if (wait > 0) {
+        this.schedule(wait);
+        return;
+      }
+
+      // 未注册处理函数的任务留在队列头部，注册后再继续执行
+      const handler = this.handlers[job.type];
+      if (!handler) return;
+
+      try {
+        const result = await this.runJob(job, handler);
+        await this.client.delete(JOBS_STORE, job.id!);
+        progress.completed++;
+        this.emit('success', { job, result });
+      } catch (error) {
+        // 队列停止或网络断开时不计入重试次数，恢复后重新执行
+        if (error === PAUSED || !isOnline()) return;
+
+        await this.moveToDeadLetters(job, error);
+        progress.failed++;
+      }
+
+      progress.pending = await this.size();
+      progress.total = progress.completed + progress.failed + progress.pending;
+      this.emit('progress', { ...progress });
+    }
+  }
+
+  /**
+   * 在同一个事务中把任务从队列移入死信队列
+   */
+  private async moveToDeadLetters(job: OfflineJob, error: any): Promise<void> {
+    const deadLetter: OfflineDeadLetter = { ...job, lastError: getErrorMessage(error), failedAt: Date.now() };
+    await this.client.batch([
+      { type: 'delete', store: JOBS_STORE, key: job.id! },
+      { type: 'put', store: DEAD_LETTERS_STORE, value: deadLetter }
+    ]);
+    this.emit('dead', { job: deadLetter, error });
+  }
+
+  /**
+   * 通过 retry 执行任务，每次重试前保存失败次数和下次执行时间，页面刷新后从保存的失败次数继续退避
+   */
+  private runJob(job: OfflineJob, handler: OfflineJobHandler): Promise<any> {
+    const { delay = 1000, factor = 2, maxDelay = 60000 } = this.options.backoff || {};
+    const { shouldRetry } = this.options;
+
+    return retry(async () => {
+      if (!this.running || !isOnline()) throw PAUSED;
+
+      this.emit('start', job);
+      try {
+        return await handler(job.payload, job);
+      } catch (error) {
+        // 执行过程中网络断开不计入重试次数
+        if (isOnline()) {
+          job.attempts++;
+          job.lastError = getErrorMessage(error);
+        }
+        throw error;
+      }
+    }, {
+      retries: Math.max(job.maxRetries - job.attempts, 0),
+      delay: delay * Math.pow(factor, job.attempts),
+      factor,
+      maxDelay,
+      shouldRetry: error => error !== PAUSED && this.running && isOnline() && (!shouldRetry || shouldRetry(error, job)),
+      onRetry: async (error, _attempt, wait) => {
+        job.nextAttemptAt = Date.now() + wait;
+        await this.client.put(JOBS_STORE, job);
+        this.emit('retry', { job, error, delay: wait });
+      }
+    });
+  }
+
+  /**
+   * 多个标签页共用同一个队列时，通过 Web Locks 保证同一时间只有一个标签页在执行任务
+   */
+  private withLock(fn: () => Promise<void>): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(`fs-utils-lib:queue:${this.dbName}`, fn).then(() => undefined);
+    }
+    return fn();
+  }
+
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.process();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit<K extends keyof OfflineQueueEvents>(event: K, data: OfflineQueueEvents[K]): void {
+    const listeners = this.listeners[event] as Array<(data: OfflineQueueEvents[K]) => void> | undefined;
+    if (!listeners) return;
+
+    listeners.slice().forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('离线队列事件回调执行失败:', error);
+      }
+    });
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的离线队列实例
+ * @param {OfflineQueueOptions} [options] - 配置选项
+ * @returns {OfflineQueue} 离线队列实例
+ */
+export function createOfflineQueue(options: OfflineQueueOptions = {}): OfflineQueue {
+  return new OfflineQueue(options);
+}
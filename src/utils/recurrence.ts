@@ -0,0 +1,956 @@
+import { TimeZoneOptions, addTime, formatDateTime, getDaysInMonth, parseDate } from './date';
+
+/**
+ * @jsonDoc
+ * @description RRULE 的重复频率
+ */
+export type RRuleFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY' | 'MINUTELY' | 'SECONDLY';
+
+/**
+ * @jsonDoc
+ * @description 带序号的星期，如"第二个星期二"、"最后一个星期五"
+ */
+export interface RRuleWeekday {
+  // 星期几（0-6，0 表示星期日）
+  weekday: number;
+  // 第几个，负数表示倒数第几个，不传表示每一个；只在按月或按年重复时有效
+  nth?: number;
+}
+
+/**
+ * @jsonDoc
+ * @description RRULE 重复规则配置，对应 RFC 5545 中的同名属性
+ */
+export interface RRuleOptions extends TimeZoneOptions {
+  // 重复频率
+  freq: RRuleFrequency;
+  // 第一次重复的时间，同时决定未指定的月、日、时、分、秒
+  dtstart: Date;
+  // 间隔，默认为 1
+  interval?: number;
+  // 重复次数，排除的日期也计入次数
+  count?: number;
+  // 结束时间（包含）
+  until?: Date;
+  // 月份（1-12）
+  byMonth?: number[];
+  // 每月的第几天，负数表示倒数
+  byMonthDay?: number[];
+  // 每年的第几天，负数表示倒数
+  byYearDay?: number[];
+  // 星期，数字（0-6）表示每个该星期
+  byDay?: Array<number | RRuleWeekday>;
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  // 在每个周期的结果中取第几个，负数表示倒数
+  bySetPos?: number[];
+  // 每周从星期几开始，默认为 1（星期一）
+  weekStart?: number;
+  // 排除的时间
+  exdates?: Date[];
+}
+
+/**
+ * @jsonDoc
+ * @description cron 表达式配置
+ */
+export interface CronOptions extends TimeZoneOptions {
+  // 排除的时间
+  exdates?: Date[];
+}
+
+/**
+ * @jsonDoc
+ * @description 重复计划，RRule 和 CronExpression 都实现了该接口
+ */
+export interface RecurrenceSchedule {
+  occurrences(after?: Date, inclusive?: boolean): Generator<Date>;
+  next(count?: number, after?: Date): Date[];
+  between(start: Date, end: Date, inclusive?: boolean): Date[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'];
+// 连续多个周期在这么多年内都没有结果时，认为规则不会再产生结果，避免死循环
+const MAX_EMPTY_YEARS = 50;
+// cron 表达式最多向后查找的年数，2 月 29 日最长 8 年出现一次
+const MAX_CRON_YEARS = 8;
+
+// 墙上时间用 UTC 字段表示，加减时不受夏令时影响
+const WALL_TIME: TimeZoneOptions = { timeZone: 'UTC' };
+const WALL_FORMAT = 'YYYY-MM-DD HH:mm:ss.SSS';
+
+/**
+ * 获取日期在指定时区（不传则为本地时区）的墙上时间
+ */
+function toWallTime(date: Date, timeZone?: string): Date {
+  return parseDate(formatDateTime(date, WALL_FORMAT, { timeZone }), WALL_FORMAT, WALL_TIME);
+}
+
+/**
+ * 把指定时区的墙上时间转换为日期
+ */
+function fromWallTime(wall: Date, options: TimeZoneOptions): Date {
+  return parseDate(formatDateTime(wall, WALL_FORMAT, WALL_TIME), WALL_FORMAT, options);
+}
+
+/**
+ * 创建墙上时间
+ */
+function createWallTime(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, millisecond = 0): Date {
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second, millisecond));
+}
+
+/**
+ * 把时间列表转换为时间戳集合，用于排除日期
+ */
+function toTimeSet(dates: Date[] = []): Set<number> {
+  return new Set(dates.map(date => date.getTime()));
+}
+
+/**
+ * 检查数字列表中的值都是范围内的整数，允许负数时也检查绝对值
+ */
+function assertRange(name: string, values: number[] | undefined, min: number, max: number, allowNegative = false): void {
+  (values || []).forEach(value => {
+    const absolute = allowNegative ? Math.abs(value) : value;
+    if (!Number.isInteger(value) || absolute < min || absolute > max) {
+      throw new Error(`${name} 的值 ${value} 超出范围`);
+    }
+  });
+}
+
+/**
+ * 获取日期在某个范围中的正序号和倒序号，如 31 天的月份中第 29 天为 [5, -1]
+ */
+function getOrdinals(index: number, length: number): [number, number] {
+  return [Math.floor(index / 7) + 1, -(Math.floor((length - 1 - index) / 7) + 1)];
+}
+
+/**
+ * 依次产生排除指定时间后的结果，并跳过不晚于 after 的结果
+ */
+function* filterOccurrences(source: Iterable<Date>, exdates: Set<number>, after?: Date, inclusive = false): Generator<Date> {
+  for (const date of source) {
+    if (after && (inclusive ? date < after : date <= after)) continue;
+    if (exdates.has(date.getTime())) continue;
+    yield date;
+  }
+}
+
+/**
+ * 从重复计划中取出前若干个结果
+ */
+function takeOccurrences(source: Iterable<Date>, count: number): Date[] {
+  const result: Date[] = [];
+  if (count <= 0) return result;
+  for (const date of source) {
+    result.push(date);
+    if (result.length >= count) break;
+  }
+  return result;
+}
+
+/**
+ * 取出时间范围内的结果
+ */
+function takeOccurrencesUntil(source: Iterable<Date>, end: Date, inclusive: boolean): Date[] {
+  const result: Date[] = [];
+  for (const date of source) {
+    if (inclusive ? date > end : date >= end) break;
+    result.push(date);
+  }
+  return result;
+}
+
+/**
+ * 把 iCalendar 日期格式化为 YYYYMMDDTHHmmss，UTC 时间以 Z 结尾
+ */
+function formatICalDate(date: Date, timeZone?: string): string {
+  return formatDateTime(date, 'YYYYMMDD[T]HHmmss', { timeZone }) + (timeZone === 'UTC' ? 'Z' : '');
+}
+
+/**
+ * 解析 iCalendar 日期，支持 YYYYMMDD、YYYYMMDDTHHmmss 和以 Z 结尾的 UTC 时间
+ */
+function parseICalDate(value: string, timeZone?: string): Date {
+  const text = value.trim();
+  const isUTC = text.endsWith('Z');
+  const body = isUTC ? text.slice(0, -1) : text;
+  const format = body.length === 8 ? 'YYYYMMDD' : 'YYYYMMDD[T]HHmmss';
+  try {
+    return parseDate(body, format, { timeZone: isUTC ? 'UTC' : timeZone, strict: true });
+  } catch {
+    throw new Error(`无效的 iCalendar 日期: ${value}`);
+  }
+}
+
+/**
+ * 解析逗号分隔的整数列表
+ */
+function parseNumberList(name: string, value: string): number[] {
+  return value.split(',').map(item => {
+    if (!/^[+-]?\d+$/.test(item.trim())) {
+      throw new Error(`${name} 的值 ${item} 不是整数`);
+    }
+    return parseInt(item, 10);
+  });
+}
+
+/**
+ * 解析星期代码，如 MO
+ */
+function parseWeekdayCode(code: string): number {
+  const weekday = WEEKDAY_CODES.indexOf(code.toUpperCase());
+  if (weekday === -1) {
+    throw new Error(`无效的星期: ${code}`);
+  }
+  return weekday;
+}
+
+/**
+ * @jsonDoc
+ * @description RFC 5545 RRULE 重复规则，按墙上时间在指定时区中计算每次重复的时间
+ */
+export class RRule implements RecurrenceSchedule {
+  private options: RRuleOptions;
+  private interval: number;
+  private weekStart: number;
+  private byDay: RRuleWeekday[] | null;
+  private exdates: Set<number>;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的重复规则实例
+   * @param {RRuleOptions} options - 重复规则配置
+   * @param {string} options.freq - 重复频率，支持 'YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'
+   * @param {Date} options.dtstart - 第一次重复的时间
+   * @param {number} [options.interval=1] - 间隔
+   * @param {number} [options.count] - 重复次数
+   * @param {Date} [options.until] - 结束时间（包含）
+   * @param {Array} [options.byDay] - 星期，数字或 { weekday, nth }
+   * @param {number} [options.weekStart=1] - 每周从星期几开始
+   * @param {Date[]} [options.exdates] - 排除的时间
+   * @param {string} [options.timeZone] - 计算墙上时间使用的 IANA 时区，不传则使用本地时区
+   * @param {string} [options.disambiguation='compatible'] - 结果落在夏令时跳过或重复的时间段时的处理方式
+   * @throws {Error} 配置无效时抛出
+   */
+  constructor(options: RRuleOptions) {
+    const { freq, dtstart, interval = 1, count, weekStart = 1 } = options;
+    if (!FREQUENCIES.includes(freq)) {
+      throw new Error(`无效的重复频率: ${freq}`);
+    }
+    if (!(dtstart instanceof Date) || isNaN(dtstart.getTime())) {
+      throw new Error('dtstart 必须是有效的日期');
+    }
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error(`无效的重复间隔: ${interval}`);
+    }
+    if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+      throw new Error(`无效的重复次数: ${count}`);
+    }
+    assertRange('byMonth', options.byMonth, 1, 12);
+    assertRange('byMonthDay', options.byMonthDay, 1, 31, true);
+    assertRange('byYearDay', options.byYearDay, 1, 366, true);
+    assertRange('byHour', options.byHour, 0, 23);
+    assertRange('byMinute', options.byMinute, 0, 59);
+    assertRange('bySecond', options.bySecond, 0, 59);
+    assertRange('bySetPos', options.bySetPos, 1, 366, true);
+    assertRange('weekStart', [weekStart], 0, 6);
+
+    const byDay = options.byDay
+      ? options.byDay.map(item => (typeof item === 'number' ? { weekday: item } : item))
+      : null;
+    (byDay || []).forEach(item => {
+      assertRange('byDay', [item.weekday], 0, 6);
+      if (item.nth !== undefined) {
+        assertRange('byDay', [item.nth], 1, 53, true);
+        if (freq !== 'MONTHLY' && freq !== 'YEARLY') {
+          throw new Error('只有按月或按年重复时 byDay 才能指定序号');
+        }
+      }
+    });
+    if (options.bySetPos && this.isSubDaily(freq)) {
+      throw new Error('按小时、分钟或秒重复时不支持 bySetPos');
+    }
+
+    const sorted = (values?: number[]) => values && values.slice().sort((a, b) => a - b);
+    this.options = {
+      ...options,
+      byHour: sorted(options.byHour),
+      byMinute: sorted(options.byMinute),
+      bySecond: sorted(options.bySecond)
+    };
+    this.interval = interval;
+    this.weekStart = weekStart;
+    this.byDay = byDay;
+    this.exdates = toTimeSet(options.exdates);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 依次产生重复的时间，已排除 exdates 中的时间
+   * @param {Date} [after] - 只产生晚于该时间的结果，不传则从 dtstart 开始
+   * @param {boolean} [inclusive=false] - 是否包含等于 after 的结果
+   * @returns {Generator<Date>} 重复时间的迭代器
+   */
+  occurrences(after?: Date, inclusive: boolean = false): Generator<Date> {
+    return filterOccurrences(this.generate(), this.exdates, after, inclusive);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取指定时间之后的若干次重复
+   * @param {number} [count=1] - 数量
+   * @param {Date} [after=new Date()] - 起始时间（不包含）
+   * @returns {Date[]} 重复时间列表，规则结束时可能少于 count 个
+   */
+  next(count: number = 1, after: Date = new Date()): Date[] {
+    return takeOccurrences(this.occurrences(after), count);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取时间范围内的所有重复
+   * @param {Date} start - 开始时间
+   * @param {Date} end - 结束时间
+   * @param {boolean} [inclusive=false] - 是否包含等于开始时间或结束时间的结果
+   * @returns {Date[]} 重复时间列表
+   */
+  between(start: Date, end: Date, inclusive: boolean = false): Date[] {
+    return takeOccurrencesUntil(this.occurrences(start, inclusive), end, inclusive);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 序列化为 iCalendar 文本，包含 DTSTART、RRULE 和 EXDATE
+   * @returns {string} iCalendar 文本，各行以换行符分隔
+   */
+  toString(): string {
+    const { timeZone, dtstart, until, count } = this.options;
+    const zoneParam = timeZone && timeZone !== 'UTC' ? `;TZID=${timeZone}` : '';
+    const parts = [`FREQ=${this.options.freq}`];
+    if (this.interval !== 1) parts.push(`INTERVAL=${this.interval}`);
+    if (count !== undefined) parts.push(`COUNT=${count}`);
+    if (until) parts.push(`UNTIL=${formatICalDate(until, 'UTC')}`);
+
+    const lists: Array<[string, number[] | undefined]> = [
+      ['BYMONTH', this.options.byMonth],
+      ['BYMONTHDAY', this.options.byMonthDay],
+      ['BYYEARDAY', this.options.byYearDay],
+      ['BYHOUR', this.options.byHour],
+      ['BYMINUTE', this.options.byMinute],
+      ['BYSECOND', this.options.bySecond],
+      ['BYSETPOS', this.options.bySetPos]
+    ];
+    lists.forEach(([name, values]) => {
+      if (values) parts.push(`${name}=${values.join(',')}`);
+    });
+    if (this.byDay) {
+      parts.push(`BYDAY=${this.byDay.map(item => `${item.nth || ''}${WEEKDAY_CODES[item.weekday]}`).join(',')}`);
+    }
+    if (this.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[this.weekStart]}`);
+
+    const lines = [`DTSTART${zoneParam}:${formatICalDate(dtstart, timeZone)}`, `RRULE:${parts.join(';')}`];
+    if (this.exdates.size > 0) {
+      const exdates = Array.from(this.exdates).map(time => formatICalDate(new Date(time), timeZone));
+      lines.push(`EXDATE${zoneParam}:${exdates.join(',')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 按周期依次产生规则的全部结果，count 和 until 在排除日期前计算
+   */
+  private *generate(): Generator<Date> {
+    const { count, until, timeZone, disambiguation } = this.options;
+    const start = toWallTime(this.options.dtstart, timeZone);
+    let period = this.getFirstPeriod(start);
+    let emitted = 0;
+    let emptyPeriods = 0;
+    let emptySince = period;
+    let last: Date | null = null;
+
+    if (count === 0) return;
+    while (period.getUTCFullYear() <= 9999) {
+      const candidates = this.getPeriodCandidates(period, start);
+      if (candidates.length > 0) {
+        emptyPeriods = 0;
+      } else {
+        if (emptyPeriods++ === 0) emptySince = period;
+        if (emptyPeriods > 1 && period.getUTCFullYear() - emptySince.getUTCFullYear() > MAX_EMPTY_YEARS) return;
+      }
+
+      for (const wall of candidates) {
+        if (wall < start) continue;
+        const date = fromWallTime(wall, { timeZone, disambiguation });
+        if (until && date > until) return;
+        // 夏令时调整可能让不同的墙上时间对应同一时间
+        if (last && date <= last) continue;
+        last = date;
+        yield date;
+        if (count !== undefined && ++emitted >= count) return;
+      }
+      period = this.getNextPeriod(period);
+    }
+  }
+
+  /**
+   * 是否为按小时、分钟或秒重复，这些频率按天划分周期
+   */
+  private isSubDaily(freq: RRuleFrequency = this.options.freq): boolean {
+    return freq === 'HOURLY' || freq === 'MINUTELY' || freq === 'SECONDLY';
+  }
+
+  /**
+   * 获取 dtstart 所在周期的第一天
+   */
+  private getFirstPeriod(start: Date): Date {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + 1;
+    const day = start.getUTCDate();
+    switch (this.options.freq) {
+      case 'YEARLY':
+        return createWallTime(year, 1, 1);
+      case 'MONTHLY':
+        return createWallTime(year, month, 1);
+      case 'WEEKLY':
+        return createWallTime(year, month, day - ((start.getUTCDay() - this.weekStart + 7) % 7));
+      default:
+        return createWallTime(year, month, day);
+    }
+  }
+
+  /**
+   * 获取下一个周期的第一天
+   */
+  private getNextPeriod(period: Date): Date {
+    switch (this.options.freq) {
+      case 'YEARLY':
+        return addTime(period, this.interval, 'years', WALL_TIME);
+      case 'MONTHLY':
+        return addTime(period, this.interval, 'months', WALL_TIME);
+      case 'WEEKLY':
+        return addTime(period, this.interval * 7, 'days', WALL_TIME);
+      case 'DAILY':
+        return addTime(period, this.interval, 'days', WALL_TIME);
+      default:
+        // 按小时、分钟或秒重复时逐天计算，间隔在 getTimes 中处理
+        return addTime(period, 1, 'days', WALL_TIME);
+    }
+  }
+
+  /**
+   * 获取一个周期内按顺序排列的全部墙上时间，并应用 bySetPos
+   */
+  private getPeriodCandidates(period: Date, start: Date): Date[] {
+    const candidates: Date[] = [];
+    this.getPeriodDays(period, start).forEach(day => {
+      this.getTimes(day, start).forEach(time => candidates.push(new Date(day.getTime() + time)));
+    });
+
+    const { bySetPos } = this.options;
+    if (!bySetPos) return candidates;
+    return bySetPos
+      .map(position => candidates[position > 0 ? position - 1 : candidates.length + position])
+      .filter((date, index, list) => date !== undefined && list.indexOf(date) === index)
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * 获取一个周期内符合规则的日期
+   */
+  private getPeriodDays(period: Date, start: Date): Date[] {
+    let length = 1;
+    if (this.options.freq === 'YEARLY') {
+      length = getDaysInMonth(period.getUTCFullYear(), 2) === 29 ? 366 : 365;
+    } else if (this.options.freq === 'MONTHLY') {
+      length = getDaysInMonth(period.getUTCFullYear(), period.getUTCMonth() + 1);
+    } else if (this.options.freq === 'WEEKLY') {
+      length = 7;
+    }
+
+    const days: Date[] = [];
+    for (let index = 0; index < length; index++) {
+      const day = createWallTime(period.getUTCFullYear(), period.getUTCMonth() + 1, period.getUTCDate() + index);
+      if (this.matchesDay(day, start)) {
+        days.push(day);
+      }
+    }
+    return days;
+  }
+
+  /**
+   * 检查日期是否符合 byMonth、byYearDay、byMonthDay 和 byDay，未指定时使用 dtstart 的月、日或星期
+   */
+  private matchesDay(day: Date, start: Date): boolean {
+    const { freq, byMonth, byMonthDay, byYearDay } = this.options;
+    const byDay = this.byDay;
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+    const daysInMonth = getDaysInMonth(year, month);
+    const daysInYear = getDaysInMonth(year, 2) === 29 ? 366 : 365;
+    const yearIndex = Math.round((day.getTime() - createWallTime(year, 1, 1).getTime()) / DAY_MS);
+
+    if (byMonth && !byMonth.includes(month)) return false;
+    if (byYearDay && !byYearDay.some(value => value === yearIndex + 1 || value === yearIndex - daysInYear)) return false;
+    if (byMonthDay && !byMonthDay.some(value => value === date || value === date - daysInMonth - 1)) return false;
+    if (byDay) {
+      // 按年重复且未指定月份时，序号相对于全年，否则相对于当月
+      const ordinals = freq === 'YEARLY' && !byMonth
+        ? getOrdinals(yearIndex, daysInYear)
+        : getOrdinals(date - 1, daysInMonth);
+      const matched = byDay.some(item =>
+        item.weekday === day.getUTCDay() && (item.nth === undefined || ordinals.includes(item.nth))
+      );
+      if (!matched) return false;
+    }
+
+    // 未指定日期相关的规则时，按 dtstart 的日期重复
+    const hasDayRule = !!(byMonthDay || byYearDay || byDay);
+    switch (freq) {
+      case 'YEARLY':
+        if (hasDayRule) return true;
+        return date === start.getUTCDate() && (!!byMonth || month === start.getUTCMonth() + 1);
+      case 'MONTHLY':
+        return hasDayRule || date === start.getUTCDate();
+      case 'WEEKLY':
+        return hasDayRule || day.getUTCDay() === start.getUTCDay();
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * 获取一天内符合规则的时间（距当天零点的毫秒数），按小时、分钟或秒重复时按间隔对齐 dtstart
+   */
+  private getTimes(day: Date, start: Date): number[] {
+    const { freq, byHour, byMinute, bySecond } = this.options;
+    const startDay = createWallTime(start.getUTCFullYear(), start.getUTCMonth() + 1, start.getUTCDate());
+    const dayIndex = Math.round((day.getTime() - startDay.getTime()) / DAY_MS);
+    const range = (length: number) => Array.from({ length }, (_, index) => index);
+    const aligned = (elapsed: number) => ((elapsed % this.interval) + this.interval) % this.interval === 0;
+
+    let hours = byHour || (freq === 'MINUTELY' || freq === 'SECONDLY' ? range(24) : [start.getUTCHours()]);
+    if (freq === 'HOURLY') {
+      hours = range(24).filter(hour =>
+        (!byHour || byHour.includes(hour)) && aligned(dayIndex * 24 + hour - start.getUTCHours())
+      );
+    }
+    const minutes = byMinute || (freq === 'SECONDLY' || freq === 'MINUTELY' ? range(60) : [start.getUTCMinutes()]);
+    const seconds = bySecond || (freq === 'SECONDLY' ? range(60) : [start.getUTCSeconds()]);
+
+    const startMinutes = start.getUTCHours() * 60 + start.getUTCMinutes();
+    const startSeconds = startMinutes * 60 + start.getUTCSeconds();
+    const times: number[] = [];
+    hours.forEach(hour => {
+      minutes.forEach(minute => {
+        if (freq === 'MINUTELY' && !aligned(dayIndex * 1440 + hour * 60 + minute - startMinutes)) return;
+        seconds.forEach(second => {
+          if (freq === 'SECONDLY' && !aligned(dayIndex * 86400 + (hour * 60 + minute) * 60 + second - startSeconds)) return;
+          times.push(((hour * 60 + minute) * 60 + second) * 1000 + start.getUTCMilliseconds());
+        });
+      });
+    });
+    return times;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建一个新的重复规则实例
+ * @param {RRuleOptions} options - 重复规则配置
+ * @returns {RRule} 重复规则实例
+ */
+export function createRRule(options: RRuleOptions): RRule {
+  return new RRule(options);
+}
+
+/**
+ * @jsonDoc
+ * @description 解析 RFC 5545 重复规则，支持只包含规则的 "FREQ=WEEKLY;BYDAY=TU" 和包含 DTSTART、RRULE、EXDATE 的多行文本
+ * @param {string} text - 重复规则文本，如 "DTSTART;TZID=Asia/Shanghai:20240102T090000\nRRULE:FREQ=MONTHLY;BYDAY=2TU"
+ * @param {Partial<RRuleOptions>} [options] - 文本中没有的配置，如 dtstart、timeZone；文本中的配置优先
+ * @returns {RRule} 重复规则实例
+ * @throws {Error} 文本格式无效、缺少 FREQ 或 DTSTART 时抛出
+ */
+export function parseRRule(text: string, options: Partial<RRuleOptions> = {}): RRule {
+  const result: Partial<RRuleOptions> = { ...options };
+  const exdates: Date[] = options.exdates ? options.exdates.slice() : [];
+  const exdateLines: Array<{ value: string; timeZone?: string }> = [];
+  let ruleText = '';
+
+  // 以空格开头的行是上一行的延续
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1 || /^FREQ=/i.test(line)) {
+      ruleText = line;
+      return;
+    }
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+    const tzidParam = params.find(param => /^TZID=/i.test(param));
+    const timeZone = tzidParam ? tzidParam.slice(5) : undefined;
+
+    switch (name.toUpperCase()) {
+      case 'DTSTART':
+        if (timeZone) result.timeZone = timeZone;
+        if (value.trim().endsWith('Z') && !result.timeZone) result.timeZone = 'UTC';
+        result.dtstart = parseICalDate(value, result.timeZone);
+        break;
+      case 'RRULE':
+        ruleText = value;
+        break;
+      case 'EXDATE':
+        value.split(',').forEach(item => exdateLines.push({ value: item, timeZone }));
+        break;
+      default:
+        throw new Error(`不支持的 iCalendar 属性: ${name}`);
+    }
+  });
+
+  if (!ruleText) {
+    throw new Error('缺少 RRULE');
+  }
+
+  ruleText.split(';').filter(Boolean).forEach(part => {
+    const [rawKey, value = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    switch (key) {
+      case 'FREQ':
+        result.freq = value.toUpperCase() as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        result.interval = parseNumberList(key, value)[0];
+        break;
+      case 'COUNT':
+        result.count = parseNumberList(key, value)[0];
+        break;
+      case 'UNTIL':
+        // UNTIL 不带 Z 时与 DTSTART 使用同一时区
+        result.until = parseICalDate(value, result.timeZone);
+        break;
+      case 'BYMONTH':
+        result.byMonth = parseNumberList(key, value);
+        break;
+      case 'BYMONTHDAY':
+        result.byMonthDay = parseNumberList(key, value);
+        break;
+      case 'BYYEARDAY':
+        result.byYearDay = parseNumberList(key, value);
+        break;
+      case 'BYHOUR':
+        result.byHour = parseNumberList(key, value);
+        break;
+      case 'BYMINUTE':
+        result.byMinute = parseNumberList(key, value);
+        break;
+      case 'BYSECOND':
+        result.bySecond = parseNumberList(key, value);
+        break;
+      case 'BYSETPOS':
+        result.bySetPos = parseNumberList(key, value);
+        break;
+      case 'BYDAY':
+        result.byDay = value.split(',').map(item => {
+          const match = /^([+-]?\d{1,2})?([A-Za-z]{2})$/.exec(item.trim());
+          if (!match) {
+            throw new Error(`无效的 BYDAY: ${item}`);
+          }
+          const weekday = parseWeekdayCode(match[2]);
+          return match[1] ? { weekday, nth: parseInt(match[1], 10) } : { weekday };
+        });
+        break;
+      case 'WKST':
+        result.weekStart = parseWeekdayCode(value);
+        break;
+      default:
+        throw new Error(`不支持的 RRULE 属性: ${key}`);
+    }
+  });
+
+  if (!result.freq) {
+    throw new Error('RRULE 缺少 FREQ');
+  }
+  if (!result.dtstart) {
+    throw new Error('缺少 DTSTART');
+  }
+
+  exdateLines.forEach(item => exdates.push(parseICalDate(item.value, item.timeZone || result.timeZone)));
+  result.exdates = exdates;
+  return new RRule(result as RRuleOptions);
+}
+
+/**
+ * cron 字段的定义
+ */
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { name: '秒', min: 0, max: 59 },
+  { name: '分', min: 0, max: 59 },
+  { name: '时', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: '星期', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+/**
+ * 解析 cron 字段中的单个值，支持数字和英文缩写
+ */
+function parseCronValue(value: string, spec: CronFieldSpec): number {
+  const nameIndex = spec.names ? spec.names.indexOf(value.toUpperCase()) : -1;
+  // 月份名称从 1 开始，星期名称从 0 开始
+  const number = nameIndex !== -1 ? nameIndex + spec.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`cron 表达式中${spec.name}的值 ${value} 无效`);
+  }
+  return number;
+}
+
+/**
+ * 解析 cron 字段，支持 *、?、列表、范围和步长
+ */
+function parseCronField(field: string, spec: CronFieldSpec): Set<number> {
+  const values = new Set<number>();
+  field.split(',').forEach(item => {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`cron 表达式中${spec.name}的步长 ${stepText} 无效`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== '*' && range !== '?') {
+      const bounds = range.split('-');
+      start = parseCronValue(bounds[0], spec);
+      // 只有起点和步长时表示从起点到最大值
+      end = bounds.length > 1 ? parseCronValue(bounds[1], spec) : stepText !== undefined ? spec.max : start;
+      if (bounds.length > 2 || end < start) {
+        throw new Error(`cron 表达式中${spec.name}的范围 ${range} 无效`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * @jsonDoc
+ * @description cron 表达式，支持 5 个字段（分 时 日 月 星期）或 6 个字段（秒 分 时 日 月 星期），
+ * 以及 @daily 等别名、日期字段的 L（月末）和星期字段的 5L（最后一个星期五）、2#1（第一个星期二）
+ */
+export class CronExpression implements RecurrenceSchedule {
+  private options: CronOptions;
+  private exdates: Set<number>;
+  private seconds: Set<number>;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private lastDayOfMonth = false;
+  private nthWeekdays: RRuleWeekday[] = [];
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的 cron 表达式实例
+   * @param {string} expression - cron 表达式，如 '0 9 * * 1-5' 表示工作日 9 点
+   * @param {CronOptions} [options] - 配置选项
+   * @param {string} [options.timeZone] - 计算墙上时间使用的 IANA 时区，不传则使用本地时区
+   * @param {string} [options.disambiguation='compatible'] - 结果落在夏令时跳过或重复的时间段时的处理方式
+   * @param {Date[]} [options.exdates] - 排除的时间
+   * @throws {Error} 表达式无效时抛出
+   */
+  constructor(public readonly expression: string, options: CronOptions = {}) {
+    this.options = options;
+    this.exdates = toTimeSet(options.exdates);
+
+    const trimmed = expression.trim();
+    const fields = (CRON_MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+    if (fields.length === 5) {
+      fields.unshift('0');
+    }
+    if (fields.length !== 6) {
+      throw new Error(`无效的 cron 表达式: ${expression}`);
+    }
+
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    this.seconds = parseCronField(second, CRON_FIELDS[0]);
+    this.minutes = parseCronField(minute, CRON_FIELDS[1]);
+    this.hours = parseCronField(hour, CRON_FIELDS[2]);
+    this.months = parseCronField(month, CRON_FIELDS[4]);
+    this.anyDayOfMonth = dayOfMonth === '*' || dayOfMonth === '?';
+    this.anyDayOfWeek = dayOfWeek === '*' || dayOfWeek === '?';
+
+    const dayItems = dayOfMonth.split(',');
+    this.lastDayOfMonth = dayItems.some(item => item.toUpperCase() === 'L');
+    const days = dayItems.filter(item => item.toUpperCase() !== 'L');
+    this.daysOfMonth = days.length > 0 ? parseCronField(days.join(','), CRON_FIELDS[3]) : new Set();
+
+    const weekdayItems: string[] = [];
+    dayOfWeek.split(',').forEach(item => {
+      const nthMatch = /^(\w+)#([1-5])$/.exec(item);
+      const lastMatch = /^(\w+)L$/i.exec(item);
+      if (nthMatch) {
+        this.nthWeekdays.push({ weekday: parseCronValue(nthMatch[1], CRON_FIELDS[5]) % 7, nth: parseInt(nthMatch[2], 10) });
+      } else if (lastMatch) {
+        this.nthWeekdays.push({ weekday: parseCronValue(lastMatch[1], CRON_FIELDS[5]) % 7, nth: -1 });
+      } else {
+        weekdayItems.push(item);
+      }
+    });
+    // 7 和 0 都表示星期日
+    const weekdays = weekdayItems.length > 0 ? parseCronField(weekdayItems.join(','), CRON_FIELDS[5]) : new Set<number>();
+    this.daysOfWeek = new Set(Array.from(weekdays).map(value => value % 7));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查时间是否符合 cron 表达式，精确到秒
+   * @param {Date} date - 日期对象
+   * @returns {boolean} 如果符合则返回 true，否则返回 false
+   */
+  matches(date: Date): boolean {
+    const wall = toWallTime(date, this.options.timeZone);
+    return this.months.has(wall.getUTCMonth() + 1)
+      && this.matchesDay(wall)
+      && this.hours.has(wall.getUTCHours())
+      && this.minutes.has(wall.getUTCMinutes())
+      && this.seconds.has(wall.getUTCSeconds());
+  }
+
+  /**
+   * @jsonDoc
+   * @description 依次产生符合表达式的时间，已排除 exdates 中的时间
+   * @param {Date} [after=new Date()] - 只产生晚于该时间的结果
+   * @param {boolean} [inclusive=false] - 是否包含等于 after 的结果
+   * @returns {Generator<Date>} 时间的迭代器
+   */
+  occurrences(after: Date = new Date(), inclusive: boolean = false): Generator<Date> {
+    return filterOccurrences(this.generate(after, inclusive), this.exdates, after, inclusive);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取指定时间之后的若干次执行时间
+   * @param {number} [count=1] - 数量
+   * @param {Date} [after=new Date()] - 起始时间（不包含）
+   * @returns {Date[]} 执行时间列表，表达式不会再匹配时可能少于 count 个
+   */
+  next(count: number = 1, after: Date = new Date()): Date[] {
+    return takeOccurrences(this.occurrences(after), count);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取时间范围内的所有执行时间
+   * @param {Date} start - 开始时间
+   * @param {Date} end - 结束时间
+   * @param {boolean} [inclusive=false] - 是否包含等于开始时间或结束时间的结果
+   * @returns {Date[]} 执行时间列表
+   */
+  between(start: Date, end: Date, inclusive: boolean = false): Date[] {
+    return takeOccurrencesUntil(this.occurrences(start, inclusive), end, inclusive);
+  }
+
+  /**
+   * 从 after 开始按墙上时间逐级查找，不符合的字段直接跳到下一个单位
+   */
+  private *generate(after: Date, inclusive: boolean): Generator<Date> {
+    const { timeZone, disambiguation } = this.options;
+    let wall = toWallTime(after, timeZone);
+    wall = new Date(wall.getTime() - wall.getUTCMilliseconds());
+    if (!inclusive || after.getMilliseconds() !== 0) {
+      wall = addTime(wall, 1, 'seconds', WALL_TIME);
+    }
+    const maxYear = wall.getUTCFullYear() + MAX_CRON_YEARS;
+    let last: Date | null = null;
+
+    while (wall.getUTCFullYear() <= maxYear) {
+      const year = wall.getUTCFullYear();
+      const month = wall.getUTCMonth() + 1;
+      const day = wall.getUTCDate();
+      const hour = wall.getUTCHours();
+      const minute = wall.getUTCMinutes();
+
+      if (!this.months.has(month)) {
+        wall = addTime(createWallTime(year, month, 1), 1, 'months', WALL_TIME);
+      } else if (!this.matchesDay(wall)) {
+        wall = addTime(createWallTime(year, month, day), 1, 'days', WALL_TIME);
+      } else if (!this.hours.has(hour)) {
+        wall = addTime(createWallTime(year, month, day, hour), 1, 'hours', WALL_TIME);
+      } else if (!this.minutes.has(minute)) {
+        wall = addTime(createWallTime(year, month, day, hour, minute), 1, 'minutes', WALL_TIME);
+      } else {
+        if (this.seconds.has(wall.getUTCSeconds())) {
+          const date = fromWallTime(wall, { timeZone, disambiguation });
+          // 夏令时跳过的时间会换算到之后的时间，可能与后面的结果重复
+          if (!last || date > last) {
+            last = date;
+            yield date;
+          }
+        }
+        wall = addTime(wall, 1, 'seconds', WALL_TIME);
+      }
+    }
+  }
+
+  /**
+   * 检查日期字段和星期字段，两者都有限制时满足其一即可
+   */
+  private matchesDay(wall: Date): boolean {
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth() + 1;
+    const day = wall.getUTCDate();
+    const daysInMonth = getDaysInMonth(year, month);
+    const weekday = wall.getUTCDay();
+
+    const dayOfMonthMatched = this.daysOfMonth.has(day) || (this.lastDayOfMonth && day === daysInMonth);
+    const ordinals = getOrdinals(day - 1, daysInMonth);
+    const dayOfWeekMatched = this.daysOfWeek.has(weekday)
+      || this.nthWeekdays.some(item => item.weekday === weekday && ordinals.includes(item.nth!));
+
+    if (this.anyDayOfMonth && this.anyDayOfWeek) return true;
+    if (this.anyDayOfMonth) return dayOfWeekMatched;
+    if (this.anyDayOfWeek) return dayOfMonthMatched;
+    return dayOfMonthMatched || dayOfWeekMatched;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 解析 cron 表达式
+ * @param {string} expression - cron 表达式，如 '0 9 * * 1-5'、'0 0 12 * * MON#2'、'@daily'
+ * @param {CronOptions} [options] - 配置选项
+ * @returns {CronExpression} cron 表达式实例
+ * @throws {Error} 表达式无效时抛出
+ */
+export function parseCron(expression: string, options: CronOptions = {}): CronExpression {
+  return new CronExpression(expression, options);
+}
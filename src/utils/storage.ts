@@ -1,15 +1,140 @@
+import { deserialize, isPlainObject, serialize, uniqueId } from './common';
+import { IndexedDBClient } from './indexedDB';
+import { COOKIE_MAX_SIZE, CookieLimitError, checkCookieLimits, encodeCookieName, parseCookie, serializeCookie } from './cookie';
+import { DecryptionError, decryptAESGCM, deriveKeyFromPassphrase, encryptAESGCM, generateSalt } from './encoding';
+
+/**
+ * 解析存储的字符串（支持 serialize 的类型标记），解析失败时返回原字符串
+ */
+function parseStoredValue(value: string): any {
+  try {
+    return deserialize(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 将数据转换为存储用的字符串，对象和 BigInt 使用 serialize 序列化以保留 Date、Map、Set 等类型
+ */
+function stringifyStoredValue(value: any): string {
+  return typeof value === 'object' || typeof value === 'bigint' ? serialize(value) : String(value);
+}
+
+/**
+ * @jsonDoc
+ * @description 存储数据的版本化结构定义。写入时数据会带上版本号，读取到旧版本数据时依次执行升级函数
+ */
+export interface ValueSchema<T = any> {
+  // 当前数据版本，从 1 开始
+  version: number;
+  // 升级函数，migrations[n] 将版本 n 的数据升级到版本 n + 1；没有版本号的旧数据视为版本 0
+  migrations?: Record<number, (value: any) => any>;
+  // 校验函数，升级后的数据不通过校验时返回默认值
+  validate?: (value: any) => boolean;
+}
+
+/**
+ * @jsonDoc
+ * @description 读取存储数据时的校验选项
+ */
+export interface StorageReadOptions<T = any> {
+  // 版本化结构定义
+  schema?: ValueSchema<T>;
+  // 校验函数，优先于 schema.validate
+  validate?: (value: any) => boolean;
+}
+
+// 版本化数据中保存版本号的字段，字段名带有库前缀，避免与普通数据中的 __version 等字段冲突
+const VERSION_FIELD = '__fsVersion';
+
+/**
+ * 为数据添加版本号包装
+ */
+function wrapVersionedValue(value: any, schema?: ValueSchema): any {
+  return schema ? { [VERSION_FIELD]: schema.version, value } : value;
+}
+
+/**
+ * @jsonDoc
+ * @description 按版本化结构定义升级存储的数据
+ * @param {any} payload - 存储中读取到的数据，可以带版本号包装，也可以是旧的裸数据
+ * @param {ValueSchema} schema - 版本化结构定义
+ * @returns {Object} 升级结果，ok 为 false 表示无法升级（缺少升级函数、升级出错、数据版本高于当前版本或校验失败）
+ */
+export function migrateStoredValue<T = any>(
+  payload: any,
+  schema: ValueSchema<T>
+): { ok: true; value: T; migrated: boolean } | { ok: false } {
+  const versioned = isPlainObject(payload) && typeof payload[VERSION_FIELD] === 'number' && 'value' in payload;
+  let version: number = versioned ? payload[VERSION_FIELD] : 0;
+  let value = versioned ? payload.value : payload;
+
+  // 更新版本写入的数据无法降级
+  if (version > schema.version) return { ok: false };
+
+  const migrated = version < schema.version;
+  try {
+    while (version < schema.version) {
+      const migrate = schema.migrations?.[version];
+      if (!migrate) return { ok: false };
+      value = migrate(value);
+      version++;
+    }
+  } catch (error) {
+    console.error('升级存储数据失败:', error);
+    return { ok: false };
+  }
+
+  if (schema.validate && !schema.validate(value)) return { ok: false };
+  return { ok: true, value, migrated };
+}
+
+/**
+ * 按读取选项校验和升级数据，升级成功时调用 persist 写回新版本数据
+ */
+function resolveStoredValue(
+  value: any,
+  defaultValue: any,
+  options: StorageReadOptions,
+  persist: (value: any) => void
+): any {
+  const { schema, validate } = options;
+  let result = value;
+
+  if (schema) {
+    const migration = migrateStoredValue(value, schema);
+    if (!migration.ok) return defaultValue;
+    result = migration.value;
+    if (validate && !validate(result)) return defaultValue;
+    if (migration.migrated) {
+      persist(result);
+    }
+    return result;
+  }
+
+  if (validate && !validate(result)) return defaultValue;
+  return result;
+}
+
 /**
  * @jsonDoc
- * @description 将数据存储到 localStorage
+ * @description 将数据存储到 localStorage，对象会保留 Date、Map、Set、BigInt 等类型
  * @param {string} key - 存储键名
  * @param {any} value - 要存储的数据
+ * @param {Object} [options] - 配置选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，设置后数据会带上版本号
  * @returns {void}
  */
-export function setLocalStorage(key: string, value: any): void {
+export function setLocalStorage(key: string, value: any, options: { schema?: ValueSchema } = {}): void {
   try {
-    const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const stringValue = stringifyStoredValue(wrapVersionedValue(value, options.schema));
     localStorage.setItem(key, stringValue);
   } catch (error) {
+    if (isQuotaExceededError(error)) {
+      console.error('localStorage 空间不足，如需自动淘汰数据请使用 QuotaAwareStorage:', error);
+      return;
+    }
     console.error('存储数据到 localStorage 失败:', error);
   }
 }
@@ -18,19 +143,20 @@ export function setLocalStorage(key: string, value: any): void {
  * @jsonDoc
  * @description 从 localStorage 获取数据
  * @param {string} key - 存储键名
- * @param {any} [defaultValue=null] - 当键不存在时返回的默认值
+ * @param {any} [defaultValue=null] - 当键不存在、无法升级或校验失败时返回的默认值
+ * @param {StorageReadOptions} [options] - 校验选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，旧版本数据会被升级并写回
+ * @param {Function} [options.validate] - 校验函数
  * @returns {any} 存储的数据或默认值
  */
-export function getLocalStorage(key: string, defaultValue: any = null): any {
+export function getLocalStorage(key: string, defaultValue: any = null, options: StorageReadOptions = {}): any {
   try {
     const value = localStorage.getItem(key);
     if (value === null) return defaultValue;
     
-    try {
-      return JSON.parse(value);
-    } catch {
-      return value;
-    }
+    return resolveStoredValue(parseStoredValue(value), defaultValue, options, upgraded => {
+      setLocalStorage(key, upgraded, { schema: options.schema });
+    });
   } catch (error) {
     console.error('从 localStorage 获取数据失败:', error);
     return defaultValue;
@@ -66,15 +192,19 @@ export function clearLocalStorage(): void {
 
 /**
  * @jsonDoc
- * @description 将数据存储到 sessionStorage
+ * @description 将数据存储到 sessionStorage，对象会保留 Date、Map、Set、BigInt 等类型
  * @param {string} key - 存储键名
  * @param {any} value - 要存储的数据
+ * @param {Object} [options] - 配置选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，设置后数据会带上版本号
  * @returns {void}
  */
-export function setSessionStorage(key: string, value: any): void {
+export function setSessionStorage(key: string, value: any, options: { schema?: ValueSchema } = {}): void {
   try {
-    const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const stringValue = stringifyStoredValue(wrapVersionedValue(value, options.schema));
+    const oldValue = sessionStorage.getItem(key);
     sessionStorage.setItem(key, stringValue);
+    broadcastStorageChange('session', key, oldValue, stringValue);
   } catch (error) {
     console.error('存储数据到 sessionStorage 失败:', error);
   }
@@ -84,19 +214,20 @@ export function setSessionStorage(key: string, value: any): void {
  * @jsonDoc
  * @description 从 sessionStorage 获取数据
  * @param {string} key - 存储键名
- * @param {any} [defaultValue=null] - 当键不存在时返回的默认值
+ * @param {any} [defaultValue=null] - 当键不存在、无法升级或校验失败时返回的默认值
+ * @param {StorageReadOptions} [options] - 校验选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，旧版本数据会被升级并写回
+ * @param {Function} [options.validate] - 校验函数
  * @returns {any} 存储的数据或默认值
  */
-export function getSessionStorage(key: string, defaultValue: any = null): any {
+export function getSessionStorage(key: string, defaultValue: any = null, options: StorageReadOptions = {}): any {
   try {
     const value = sessionStorage.getItem(key);
     if (value === null) return defaultValue;
     
-    try {
-      return JSON.parse(value);
-    } catch {
-      return value;
-    }
+    return resolveStoredValue(parseStoredValue(value), defaultValue, options, upgraded => {
+      setSessionStorage(key, upgraded, { schema: options.schema });
+    });
   } catch (error) {
     console.error('从 sessionStorage 获取数据失败:', error);
     return defaultValue;
@@ -111,7 +242,11 @@ export function getSessionStorage(key: string, defaultValue: any = null): any {
  */
 export function removeSessionStorage(key: string): void {
   try {
+    const oldValue = sessionStorage.getItem(key);
     sessionStorage.removeItem(key);
+    if (oldValue !== null) {
+      broadcastStorageChange('session', key, oldValue, null);
+    }
   } catch (error) {
     console.error('从 sessionStorage 移除数据失败:', error);
   }
@@ -125,27 +260,103 @@ export function removeSessionStorage(key: string): void {
 export function clearSessionStorage(): void {
   try {
     sessionStorage.clear();
+    broadcastStorageChange('session', null, null, null);
   } catch (error) {
     console.error('清空 sessionStorage 失败:', error);
   }
 }
 
+// 本库写入的过期包装中的标记字段，清理时只处理带有该标记的数据，避免误删其他程序写入的同结构数据
+const EXPIRY_MARKER = '__fsExpiry';
+
+/**
+ * 带过期时间的数据包装格式，ttl 存在时表示滑动过期
+ */
+interface ExpiryItem {
+  [EXPIRY_MARKER]?: true;
+  value: any;
+  expiry: number;
+  ttl?: number;
+}
+
+/**
+ * 创建带过期时间的数据包装
+ */
+function createExpiryItem(value: any, expiryInSeconds: number, sliding: boolean = false): ExpiryItem {
+  const ttl = expiryInSeconds * 1000;
+  const item: ExpiryItem = { [EXPIRY_MARKER]: true, value, expiry: Date.now() + ttl };
+  if (sliding) {
+    item.ttl = ttl;
+  }
+  return item;
+}
+
+/**
+ * 判断数据是否为带过期时间的包装格式，包括旧版本 setLocalStorageWithExpiry 写入的没有标记的数据
+ */
+function isExpiryItem(item: any): item is ExpiryItem {
+  return isPlainObject(item) && typeof item.expiry === 'number' && 'value' in item;
+}
+
+/**
+ * 判断数据是否为本库写入的带过期时间的包装格式，没有标记的同结构数据按普通数据处理
+ */
+function isOwnExpiryItem(item: any): item is ExpiryItem {
+  return isExpiryItem(item) && item[EXPIRY_MARKER] === true;
+}
+
+/**
+ * 判断包装数据是否已过期
+ */
+function isExpired(item: ExpiryItem): boolean {
+  return Date.now() > item.expiry;
+}
+
+/**
+ * 读取带过期时间的数据：已过期时调用 remove 并返回默认值，滑动过期时调用 refresh 续期。
+ * legacy 为 true 时同时识别旧版本写入的没有标记的数据
+ */
+function readExpiryItem(
+  item: any,
+  defaultValue: any,
+  remove: () => void,
+  refresh: (item: ExpiryItem) => void,
+  legacy: boolean = false
+): any {
+  if (item === null || item === undefined) return defaultValue;
+
+  // 不是带过期时间的数据时原样返回
+  if (!(legacy ? isExpiryItem(item) : isOwnExpiryItem(item))) return item;
+
+  if (isExpired(item)) {
+    remove();
+    return defaultValue;
+  }
+
+  if (item.ttl !== undefined) {
+    refresh({ ...item, expiry: Date.now() + item.ttl });
+  }
+  return item.value;
+}
+
 /**
  * @jsonDoc
  * @description 设置带有过期时间的 localStorage 数据
  * @param {string} key - 存储键名
  * @param {any} value - 要存储的数据
  * @param {number} expiryInSeconds - 过期时间（秒）
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.sliding=false] - 是否启用滑动过期，每次读取都会重新计算过期时间
  * @returns {void}
  */
-export function setLocalStorageWithExpiry(key: string, value: any, expiryInSeconds: number): void {
+export function setLocalStorageWithExpiry(
+  key: string,
+  value: any,
+  expiryInSeconds: number,
+  options: { sliding?: boolean } = {}
+): void {
   try {
-    const now = new Date();
-    const item = {
-      value: value,
-      expiry: now.getTime() + expiryInSeconds * 1000,
-    };
-    setLocalStorage(key, item);
+    setLocalStorage(key, createExpiryItem(value, expiryInSeconds, options.sliding));
   } catch (error) {
     console.error('设置带过期时间的 localStorage 数据失败:', error);
   }
@@ -160,26 +371,64 @@ export function setLocalStorageWithExpiry(key: string, value: any, expiryInSecon
  */
 export function getLocalStorageWithExpiry(key: string, defaultValue: any = null): any {
   try {
-    const itemStr = getLocalStorage(key);
-    if (!itemStr) return defaultValue;
-    
-    // 检查是否有 expiry 字段
-    if (!itemStr.expiry) return itemStr;
-    
-    const now = new Date();
-    // 比较当前时间和过期时间
-    if (now.getTime() > itemStr.expiry) {
-      // 如果已过期，删除并返回默认值
-      removeLocalStorage(key);
-      return defaultValue;
-    }
-    return itemStr.value;
+    return readExpiryItem(
+      getLocalStorage(key),
+      defaultValue,
+      () => removeLocalStorage(key),
+      item => setLocalStorage(key, item),
+      // 旧版本的 setLocalStorageWithExpiry 写入的数据没有标记
+      true
+    );
   } catch (error) {
     console.error('获取带过期时间的 localStorage 数据失败:', error);
     return defaultValue;
   }
 }
 
+/**
+ * @jsonDoc
+ * @description 设置带有过期时间的 sessionStorage 数据
+ * @param {string} key - 存储键名
+ * @param {any} value - 要存储的数据
+ * @param {number} expiryInSeconds - 过期时间（秒）
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.sliding=false] - 是否启用滑动过期，每次读取都会重新计算过期时间
+ * @returns {void}
+ */
+export function setSessionStorageWithExpiry(
+  key: string,
+  value: any,
+  expiryInSeconds: number,
+  options: { sliding?: boolean } = {}
+): void {
+  try {
+    setSessionStorage(key, createExpiryItem(value, expiryInSeconds, options.sliding));
+  } catch (error) {
+    console.error('设置带过期时间的 sessionStorage 数据失败:', error);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 获取带有过期时间的 sessionStorage 数据，如果已过期则返回默认值
+ * @param {string} key - 存储键名
+ * @param {any} [defaultValue=null] - 当键不存在或已过期时返回的默认值
+ * @returns {any} 存储的数据或默认值
+ */
+export function getSessionStorageWithExpiry(key: string, defaultValue: any = null): any {
+  try {
+    return readExpiryItem(
+      getSessionStorage(key),
+      defaultValue,
+      () => removeSessionStorage(key),
+      item => setSessionStorage(key, item)
+    );
+  } catch (error) {
+    console.error('获取带过期时间的 sessionStorage 数据失败:', error);
+    return defaultValue;
+  }
+}
+
 /**
  * @jsonDoc
  * @description 检查浏览器是否支持 localStorage
@@ -213,324 +462,1851 @@ export function isSessionStorageSupported(): boolean {
 }
 
 /**
- * @jsonDoc
- * @description 获取 localStorage 已使用的空间大小（以字节为单位）
- * @returns {number} 已使用的空间大小
+ * 获取 Web Storage 中以指定前缀开头的所有键名
  */
-export function getLocalStorageUsage(): number {
-  try {
-    let total = 0;
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key) {
-        const value = localStorage.getItem(key);
-        total += key.length + (value ? value.length : 0);
-      }
+function getWebStorageKeys(storage: Storage, prefix: string = ''): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key !== null && key.startsWith(prefix)) {
+      keys.push(key);
     }
-    return total;
-  } catch (error) {
-    console.error('获取 localStorage 使用空间失败:', error);
-    return 0;
   }
+  return keys;
 }
 
 /**
- * @jsonDoc
- * @description 将对象存储到 IndexedDB
- * @param {string} dbName - 数据库名称
- * @param {string} storeName - 存储对象名称
- * @param {any} data - 要存储的数据对象
- * @param {string|number} [key] - 可选的键名，如果不提供则使用自动递增键
- * @returns {Promise<any>} 包含操作结果的 Promise
+ * 计算 Web Storage 中以指定前缀开头的键值所占用的空间
  */
-export function saveToIndexedDB(dbName: string, storeName: string, data: any, key?: string | number): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(dbName, 1);
-    
-    request.onerror = (event) => {
-      reject('IndexedDB 错误: ' + (event.target as IDBOpenDBRequest).error);
-    };
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(storeName)) {
-        db.createObjectStore(storeName, { keyPath: 'id', autoIncrement: true });
-      }
-    };
-    
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction([storeName], 'readwrite');
-      const store = transaction.objectStore(storeName);
-      
-      let saveRequest;
-      if (key !== undefined) {
-        data.id = key;
-        saveRequest = store.put(data);
-      } else {
-        saveRequest = store.add(data);
-      }
-      
-      saveRequest.onsuccess = () => {
-        resolve(saveRequest.result);
-      };
-      
-      saveRequest.onerror = () => {
-        reject('保存数据到 IndexedDB 失败: ' + saveRequest.error);
-      };
-      
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-  });
+function calculateWebStorageUsage(storage: Storage, prefix: string = ''): number {
+  return getWebStorageKeys(storage, prefix).reduce((total, key) => {
+    const value = storage.getItem(key);
+    return total + key.length + (value ? value.length : 0);
+  }, 0);
 }
 
 /**
  * @jsonDoc
- * @description 从 IndexedDB 获取数据
- * @param {string} dbName - 数据库名称
- * @param {string} storeName - 存储对象名称
- * @param {string|number} key - 要获取的数据键名
- * @returns {Promise<any>} 包含获取的数据的 Promise
+ * @description 获取 localStorage 已使用的空间大小（以字节为单位）
+ * @param {string} [prefix=''] - 仅统计以该前缀开头的键
+ * @returns {number} 已使用的空间大小
  */
-export function getFromIndexedDB(dbName: string, storeName: string, key: string | number): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(dbName, 1);
-    
-    request.onerror = (event) => {
-      reject('IndexedDB 错误: ' + (event.target as IDBOpenDBRequest).error);
-    };
-    
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      if (!db.objectStoreNames.contains(storeName)) {
-        resolve(null);
-        return;
-      }
-      
-      const transaction = db.transaction([storeName], 'readonly');
-      const store = transaction.objectStore(storeName);
-      const getRequest = store.get(key);
-      
-      getRequest.onsuccess = () => {
-        resolve(getRequest.result);
-      };
-      
-      getRequest.onerror = () => {
-        reject('从 IndexedDB 获取数据失败: ' + getRequest.error);
-      };
-      
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-  });
+export function getLocalStorageUsage(prefix: string = ''): number {
+  try {
+    return calculateWebStorageUsage(localStorage, prefix);
+  } catch (error) {
+    console.error('获取 localStorage 使用空间失败:', error);
+    return 0;
+  }
 }
 
 /**
  * @jsonDoc
- * @description 设置 cookie
- * @param {string} name - cookie 名称
- * @param {string} value - cookie 值
- * @param {Object} [options] - cookie 选项
- * @param {number} [options.days] - cookie 过期天数
- * @param {string} [options.path='/'] - cookie 路径
- * @param {string} [options.domain] - cookie 域名
- * @param {boolean} [options.secure=false] - 是否仅通过 HTTPS 传输
- * @param {boolean} [options.sameSite='Lax'] - SameSite 属性 ('Strict', 'Lax', 'None')
- * @returns {void}
+ * @description 获取 sessionStorage 已使用的空间大小（以字节为单位）
+ * @param {string} [prefix=''] - 仅统计以该前缀开头的键
+ * @returns {number} 已使用的空间大小
  */
-export function setCookie(
-  name: string, 
-  value: string, 
-  options: {
-    days?: number;
-    path?: string;
-    domain?: string;
-    secure?: boolean;
-    sameSite?: 'Strict' | 'Lax' | 'None';
-  } = {}
-): void {
+export function getSessionStorageUsage(prefix: string = ''): number {
   try {
-    const { days, path = '/', domain, secure = false, sameSite = 'Lax' } = options;
-    
-    let cookieString = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
-    
-    if (days !== undefined) {
-      const date = new Date();
-      date.setTime(date.getTime() + days * 24 * 60 * 60 * 1000);
-      cookieString += `; expires=${date.toUTCString()}`;
-    }
-    
-    cookieString += `; path=${path}`;
-    
-    if (domain) {
-      cookieString += `; domain=${domain}`;
-    }
-    
-    if (secure) {
-      cookieString += '; secure';
-    }
-    
-    cookieString += `; samesite=${sameSite}`;
-    
-    document.cookie = cookieString;
+    return calculateWebStorageUsage(sessionStorage, prefix);
   } catch (error) {
-    console.error('设置 cookie 失败:', error);
+    console.error('获取 sessionStorage 使用空间失败:', error);
+    return 0;
   }
 }
 
 /**
  * @jsonDoc
- * @description 获取指定名称的 cookie 值
- * @param {string} name - cookie 名称
- * @returns {string|null} cookie 值，如果不存在则返回 null
+ * @description 命名空间存储类，所有键自动添加前缀，只列出和清空属于自己的键
  */
-export function getCookie(name: string): string | null {
-  try {
-    const nameEQ = encodeURIComponent(name) + '=';
-    const cookies = document.cookie.split(';');
-    
-    for (let i = 0; i < cookies.length; i++) {
-      let cookie = cookies[i];
-      while (cookie.charAt(0) === ' ') {
-        cookie = cookie.substring(1);
+export class NamespacedStorage {
+  private namespace: string;
+  private type: 'local' | 'session';
+  private prefix: string;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的命名空间存储实例
+   * @param {string} namespace - 命名空间名称
+   * @param {Object} [options] - 配置选项
+   * @param {string} [options.type='local'] - 存储类型，'local' 或 'session'
+   * @param {string} [options.separator=':'] - 命名空间与键名之间的分隔符
+   */
+  constructor(namespace: string, options: { type?: 'local' | 'session'; separator?: string } = {}) {
+    const { type = 'local', separator = ':' } = options;
+    if (!namespace) {
+      throw new Error('命名空间名称不能为空');
+    }
+    this.namespace = namespace;
+    this.type = type;
+    this.prefix = namespace + separator;
+  }
+
+  private get storage(): Storage {
+    return this.type === 'local' ? localStorage : sessionStorage;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取命名空间名称
+   * @returns {string} 命名空间名称
+   */
+  getNamespace(): string {
+    return this.namespace;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取带前缀的完整键名
+   * @param {string} key - 存储键名
+   * @returns {string} 完整键名
+   */
+  getFullKey(key: string): string {
+    return this.prefix + key;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 存储数据
+   * @param {string} key - 存储键名
+   * @param {any} value - 要存储的数据
+   * @param {Object} [options] - 配置选项，与 setLocalStorage 相同
+   * @returns {void}
+   */
+  set(key: string, value: any, options: { schema?: ValueSchema } = {}): void {
+    if (this.type === 'local') {
+      setLocalStorage(this.getFullKey(key), value, options);
+    } else {
+      setSessionStorage(this.getFullKey(key), value, options);
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取数据
+   * @param {string} key - 存储键名
+   * @param {any} [defaultValue=null] - 当键不存在、无法升级或校验失败时返回的默认值
+   * @param {StorageReadOptions} [options] - 校验选项，与 getLocalStorage 相同
+   * @returns {any} 存储的数据或默认值
+   */
+  get(key: string, defaultValue: any = null, options: StorageReadOptions = {}): any {
+    return this.type === 'local'
+      ? getLocalStorage(this.getFullKey(key), defaultValue, options)
+      : getSessionStorage(this.getFullKey(key), defaultValue, options);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 移除数据
+   * @param {string} key - 存储键名
+   * @returns {void}
+   */
+  remove(key: string): void {
+    if (this.type === 'local') {
+      removeLocalStorage(this.getFullKey(key));
+    } else {
+      removeSessionStorage(this.getFullKey(key));
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查键是否存在
+   * @param {string} key - 存储键名
+   * @returns {boolean} 如果存在则返回 true
+   */
+  has(key: string): boolean {
+    try {
+      return this.storage.getItem(this.getFullKey(key)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取命名空间内的所有键名（不含前缀）
+   * @returns {string[]} 键名数组
+   */
+  keys(): string[] {
+    try {
+      return getWebStorageKeys(this.storage, this.prefix).map(key => key.substring(this.prefix.length));
+    } catch (error) {
+      console.error('获取命名空间键名失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清空命名空间内的所有数据，不影响其他键
+   * @returns {void}
+   */
+  clear(): void {
+    this.keys().forEach(key => this.remove(key));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取命名空间已使用的空间大小（以字节为单位）
+   * @returns {number} 已使用的空间大小
+   */
+  getUsage(): number {
+    return this.type === 'local' ? getLocalStorageUsage(this.prefix) : getSessionStorageUsage(this.prefix);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建命名空间存储实例
+ * @param {string} namespace - 命名空间名称
+ * @param {Object} [options] - 配置选项
+ * @param {string} [options.type='local'] - 存储类型，'local' 或 'session'
+ * @param {string} [options.separator=':'] - 命名空间与键名之间的分隔符
+ * @returns {NamespacedStorage} 命名空间存储实例
+ */
+export function createNamespacedStorage(
+  namespace: string,
+  options: { type?: 'local' | 'session'; separator?: string } = {}
+): NamespacedStorage {
+  return new NamespacedStorage(namespace, options);
+}
+
+/**
+ * @jsonDoc
+ * @description 存储空间不足时的淘汰策略：'lru' 淘汰最久未访问的数据，'expiry' 淘汰最早过期的数据，'priority' 淘汰优先级最低的数据
+ */
+export type EvictionPolicy = 'lru' | 'expiry' | 'priority';
+
+/**
+ * @jsonDoc
+ * @description 存储空间不足错误，淘汰数据后仍无法写入时抛出
+ */
+export class StorageQuotaError extends Error {
+  area: 'local' | 'session';
+  key: string;
+  // 写入失败的数据大小（字符数）
+  size: number;
+  // 写入前已被淘汰的键名
+  evicted: string[];
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的存储空间不足错误
+   * @param {string} area - 存储类型，'local' 或 'session'
+   * @param {string} key - 写入失败的键名
+   * @param {number} size - 写入失败的数据大小
+   * @param {string[]} [evicted=[]] - 已被淘汰的键名
+   */
+  constructor(area: 'local' | 'session', key: string, size: number, evicted: string[] = []) {
+    super(`${area === 'local' ? 'localStorage' : 'sessionStorage'} 空间不足，无法写入 ${key}（${size} 字符）`);
+    this.name = 'StorageQuotaError';
+    this.area = area;
+    this.key = key;
+    this.size = size;
+    this.evicted = evicted;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 检查错误是否为存储空间不足错误（兼容各浏览器的不同错误名称）
+ * @param {any} error - 要检查的错误
+ * @returns {boolean} 如果是存储空间不足错误则返回 true
+ */
+export function isQuotaExceededError(error: any): boolean {
+  if (error instanceof StorageQuotaError) return true;
+  if (!error || typeof error !== 'object') return false;
+  return error.name === 'QuotaExceededError'
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || error.code === 22
+    || error.code === 1014;
+}
+
+/**
+ * 配额管理记录的单条元数据
+ */
+interface QuotaEntryMeta {
+  accessedAt: number;
+  priority: number;
+}
+
+/**
+ * @jsonDoc
+ * @description 配额感知存储类，写入空间不足时按淘汰策略删除自己写入过的数据并重试，不会影响其他代码写入的键
+ */
+export class QuotaAwareStorage {
+  private type: 'local' | 'session';
+  private evict: EvictionPolicy | false;
+  private metaKey: string;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的配额感知存储实例
+   * @param {Object} [options] - 配置选项
+   * @param {string} [options.type='local'] - 存储类型，'local' 或 'session'
+   * @param {string|boolean} [options.evict='lru'] - 淘汰策略，'lru'、'expiry'、'priority'，false 表示不淘汰
+   * @param {string} [options.metaKey='__fs_utils_quota_meta__'] - 保存访问记录的键名
+   */
+  constructor(options: { type?: 'local' | 'session'; evict?: EvictionPolicy | false; metaKey?: string } = {}) {
+    const { type = 'local', evict = 'lru', metaKey = '__fs_utils_quota_meta__' } = options;
+    this.type = type;
+    this.evict = evict;
+    this.metaKey = metaKey;
+  }
+
+  private get storage(): Storage {
+    return this.type === 'local' ? localStorage : sessionStorage;
+  }
+
+  private readMeta(): Record<string, QuotaEntryMeta> {
+    const raw = this.storage.getItem(this.metaKey);
+    const meta = raw === null ? null : parseStoredValue(raw);
+    return isPlainObject(meta) ? meta : {};
+  }
+
+  private writeMeta(meta: Record<string, QuotaEntryMeta>): void {
+    try {
+      this.storage.setItem(this.metaKey, JSON.stringify(meta));
+    } catch (error) {
+      // 元数据写入失败只会影响淘汰顺序，不影响数据本身
+      console.error('写入存储访问记录失败:', error);
+    }
+  }
+
+  /**
+   * 按淘汰策略排序候选键名，排在前面的先被淘汰
+   */
+  private getEvictionCandidates(meta: Record<string, QuotaEntryMeta>, excludeKey: string): string[] {
+    const keys = Object.keys(meta).filter(key => key !== excludeKey && this.storage.getItem(key) !== null);
+    const byAccess = (a: string, b: string) => meta[a].accessedAt - meta[b].accessedAt;
+
+    switch (this.evict) {
+      case 'expiry': {
+        const expiryOf = (key: string) => {
+          const item = parseStoredValue(this.storage.getItem(key)!);
+          return isOwnExpiryItem(item) ? item.expiry : Infinity;
+        };
+        return keys.sort((a, b) => expiryOf(a) - expiryOf(b) || byAccess(a, b));
       }
-      
-      if (cookie.indexOf(nameEQ) === 0) {
-        return decodeURIComponent(cookie.substring(nameEQ.length));
+      case 'priority':
+        return keys.sort((a, b) => meta[a].priority - meta[b].priority || byAccess(a, b));
+      case 'lru':
+        return keys.sort(byAccess);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取数据，同时更新访问时间
+   * @param {string} key - 存储键名
+   * @param {any} [defaultValue=null] - 当键不存在时返回的默认值
+   * @returns {any} 存储的数据或默认值
+   */
+  get(key: string, defaultValue: any = null): any {
+    const value = this.type === 'local' ? getLocalStorage(key, defaultValue) : getSessionStorage(key, defaultValue);
+    try {
+      const meta = this.readMeta();
+      if (meta[key]) {
+        meta[key].accessedAt = Date.now();
+        this.writeMeta(meta);
       }
+    } catch (error) {
+      console.error('更新存储访问记录失败:', error);
+    }
+    return value;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 写入数据，空间不足时按淘汰策略删除数据后重试
+   * @param {string} key - 存储键名
+   * @param {any} value - 要存储的数据
+   * @param {Object} [options] - 配置选项
+   * @param {number} [options.priority=0] - 优先级，数值越小越先被淘汰
+   * @returns {string[]} 为了写入而被淘汰的键名
+   * @throws {StorageQuotaError} 淘汰所有候选数据后仍无法写入时抛出
+   */
+  set(key: string, value: any, options: { priority?: number } = {}): string[] {
+    const { priority = 0 } = options;
+    const stringValue = stringifyStoredValue(value);
+    const meta = this.readMeta();
+    const evicted: string[] = [];
+    let candidates: string[] | null = null;
+
+    while (true) {
+      try {
+        this.storage.setItem(key, stringValue);
+        break;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+
+        if (candidates === null) {
+          candidates = this.getEvictionCandidates(meta, key);
+        }
+        const victim = candidates.shift();
+        if (victim === undefined) {
+          this.writeMeta(meta);
+          throw new StorageQuotaError(this.type, key, key.length + stringValue.length, evicted);
+        }
+
+        this.storage.removeItem(victim);
+        delete meta[victim];
+        evicted.push(victim);
+      }
+    }
+
+    meta[key] = { accessedAt: Date.now(), priority };
+    this.writeMeta(meta);
+    return evicted;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 移除数据及其访问记录
+   * @param {string} key - 存储键名
+   * @returns {void}
+   */
+  remove(key: string): void {
+    if (this.type === 'local') {
+      removeLocalStorage(key);
+    } else {
+      removeSessionStorage(key);
+    }
+    const meta = this.readMeta();
+    if (meta[key]) {
+      delete meta[key];
+      this.writeMeta(meta);
     }
-    
-    return null;
-  } catch (error) {
-    console.error('获取 cookie 失败:', error);
-    return null;
   }
 }
 
 /**
  * @jsonDoc
- * @description 删除指定名称的 cookie
- * @param {string} name - cookie 名称
- * @param {Object} [options] - cookie 选项
- * @param {string} [options.path='/'] - cookie 路径
- * @param {string} [options.domain] - cookie 域名
- * @returns {void}
+ * @description 创建配额感知存储实例
+ * @param {Object} [options] - 配置选项，与 QuotaAwareStorage 构造函数相同
+ * @returns {QuotaAwareStorage} 配额感知存储实例
  */
-export function removeCookie(
-  name: string, 
-  options: {
-    path?: string;
-    domain?: string;
-  } = {}
-): void {
-  try {
-    // 设置过期时间为过去的时间来删除 cookie
-    setCookie(name, '', {
-      days: -1,
-      path: options.path,
-      domain: options.domain
-    });
-  } catch (error) {
-    console.error('删除 cookie 失败:', error);
-  }
+export function createQuotaAwareStorage(
+  options: { type?: 'local' | 'session'; evict?: EvictionPolicy | false; metaKey?: string } = {}
+): QuotaAwareStorage {
+  return new QuotaAwareStorage(options);
 }
 
 /**
  * @jsonDoc
- * @description 检查指定名称的 cookie 是否存在
- * @param {string} name - cookie 名称
- * @returns {boolean} 如果 cookie 存在则返回 true，否则返回 false
+ * @description 获取存储空间使用情况，包括 navigator.storage.estimate() 的结果和 localStorage、sessionStorage 的使用量
+ * @returns {Promise<Object>} 存储空间使用情况，不支持的字段为 null
  */
-export function hasCookie(name: string): boolean {
-  return getCookie(name) !== null;
+export async function getStorageEstimate(): Promise<{
+  usage: number | null;
+  quota: number | null;
+  persisted: boolean | null;
+  localStorageUsage: number;
+  sessionStorageUsage: number;
+}> {
+  let usage: number | null = null;
+  let quota: number | null = null;
+  let persisted: boolean | null = null;
+
+  if (typeof navigator !== 'undefined' && navigator.storage) {
+    try {
+      if (navigator.storage.estimate) {
+        const estimate = await navigator.storage.estimate();
+        usage = estimate.usage ?? null;
+        quota = estimate.quota ?? null;
+      }
+      if (navigator.storage.persisted) {
+        persisted = await navigator.storage.persisted();
+      }
+    } catch (error) {
+      console.error('获取存储空间估算失败:', error);
+    }
+  }
+
+  return {
+    usage,
+    quota,
+    persisted,
+    localStorageUsage: isLocalStorageSupported() ? getLocalStorageUsage() : 0,
+    sessionStorageUsage: isSessionStorageSupported() ? getSessionStorageUsage() : 0
+  };
 }
 
 /**
  * @jsonDoc
- * @description 获取所有 cookie 并以对象形式返回
- * @returns {Record<string, string>} 包含所有 cookie 的对象
+ * @description 请求持久化存储，避免浏览器在空间紧张时自动清理本站数据
+ * @returns {Promise<boolean>} 如果已获得持久化存储则返回 true
  */
-export function getAllCookies(): Record<string, string> {
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage || !navigator.storage.persist) {
+    return false;
+  }
+
   try {
-    const cookies: Record<string, string> = {};
-    const cookiesList = document.cookie.split(';');
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error('请求持久化存储失败:', error);
+    return false;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 将对象存储到 IndexedDB
+ * @param {string} dbName - 数据库名称
+ * @param {string} storeName - 存储对象名称
+ * @param {any} data - 要存储的数据对象
+ * @param {string|number} [key] - 可选的键名，如果不提供则使用自动递增键
+ * @returns {Promise<any>} 包含操作结果的 Promise
+ */
+export function saveToIndexedDB(dbName: string, storeName: string, data: any, key?: string | number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    
+    request.onerror = (event) => {
+      reject('IndexedDB 错误: ' + (event.target as IDBOpenDBRequest).error);
+    };
     
-    for (let i = 0; i < cookiesList.length; i++) {
-      let cookie = cookiesList[i];
-      while (cookie.charAt(0) === ' ') {
-        cookie = cookie.substring(1);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.createObjectStore(storeName, { keyPath: 'id', autoIncrement: true });
       }
+    };
+    
+    request.onsuccess = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = db.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
       
-      const separatorIndex = cookie.indexOf('=');
-      if (separatorIndex > 0) {
-        const name = decodeURIComponent(cookie.substring(0, separatorIndex));
-        const value = decodeURIComponent(cookie.substring(separatorIndex + 1));
-        cookies[name] = value;
+      let saveRequest;
+      if (key !== undefined) {
+        data.id = key;
+        saveRequest = store.put(data);
+      } else {
+        saveRequest = store.add(data);
       }
-    }
+      
+      saveRequest.onsuccess = () => {
+        resolve(saveRequest.result);
+      };
+      
+      saveRequest.onerror = () => {
+        reject('保存数据到 IndexedDB 失败: ' + saveRequest.error);
+      };
+      
+      transaction.oncomplete = () => {
+        db.close();
+      };
+    };
+  });
+}
+
+/**
+ * @jsonDoc
+ * @description 从 IndexedDB 获取数据
+ * @param {string} dbName - 数据库名称
+ * @param {string} storeName - 存储对象名称
+ * @param {string|number} key - 要获取的数据键名
+ * @returns {Promise<any>} 包含获取的数据的 Promise
+ */
+export function getFromIndexedDB(dbName: string, storeName: string, key: string | number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
     
-    return cookies;
-  } catch (error) {
-    console.error('获取所有 cookie 失败:', error);
-    return {};
-  }
+    request.onerror = (event) => {
+      reject('IndexedDB 错误: ' + (event.target as IDBOpenDBRequest).error);
+    };
+    
+    request.onsuccess = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      
+      if (!db.objectStoreNames.contains(storeName)) {
+        resolve(null);
+        return;
+      }
+      
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const getRequest = store.get(key);
+      
+      getRequest.onsuccess = () => {
+        resolve(getRequest.result);
+      };
+      
+      getRequest.onerror = () => {
+        reject('从 IndexedDB 获取数据失败: ' + getRequest.error);
+      };
+      
+      transaction.oncomplete = () => {
+        db.close();
+      };
+    };
+  });
+}
+
+/**
+ * @jsonDoc
+ * @description cookie 选项
+ */
+export interface CookieOptions {
+  days?: number;
+  // 有效期（秒），优先级高于 days 和 expires
+  maxAge?: number;
+  expires?: Date;
+  path?: string;
+  domain?: string;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  // CHIPS 分区 cookie，需要同时设置 secure
+  partitioned?: boolean;
+  priority?: 'Low' | 'Medium' | 'High';
+  // 超出浏览器大小或数量限制时的处理方式：'warn' 输出警告，'error' 抛出 CookieLimitError，'ignore' 不检查
+  onLimit?: 'warn' | 'error' | 'ignore';
 }
 
 /**
  * @jsonDoc
- * @description 设置带有 JSON 值的 cookie
+ * @description 设置 cookie
  * @param {string} name - cookie 名称
- * @param {any} value - 要存储的 JSON 值
+ * @param {string} value - cookie 值
  * @param {Object} [options] - cookie 选项
  * @param {number} [options.days] - cookie 过期天数
+ * @param {number} [options.maxAge] - cookie 有效期（秒）
+ * @param {Date} [options.expires] - cookie 过期时间，设置 days 时忽略
  * @param {string} [options.path='/'] - cookie 路径
  * @param {string} [options.domain] - cookie 域名
  * @param {boolean} [options.secure=false] - 是否仅通过 HTTPS 传输
  * @param {boolean} [options.sameSite='Lax'] - SameSite 属性 ('Strict', 'Lax', 'None')
+ * @param {boolean} [options.partitioned=false] - 是否为分区 cookie
+ * @param {string} [options.priority] - 优先级 ('Low', 'Medium', 'High')
+ * @param {string} [options.onLimit='warn'] - 超出大小或数量限制时的处理方式 ('warn', 'error', 'ignore')
  * @returns {void}
+ * @throws {CookieLimitError} onLimit 为 'error' 且超出限制时抛出
  */
-export function setJSONCookie(
+export function setCookie(
   name: string, 
-  value: any, 
-  options: {
-    days?: number;
-    path?: string;
-    domain?: string;
-    secure?: boolean;
-    sameSite?: 'Strict' | 'Lax' | 'None';
-  } = {}
+  value: string, 
+  options: CookieOptions = {}
 ): void {
   try {
-    const jsonValue = JSON.stringify(value);
-    setCookie(name, jsonValue, options);
+    writeCookie(name, value, options);
   } catch (error) {
-    console.error('设置 JSON cookie 失败:', error);
+    if (error instanceof CookieLimitError) throw error;
+    console.error('设置 cookie 失败:', error);
   }
 }
 
 /**
  * @jsonDoc
- * @description 获取指定名称的 JSON cookie 值
+ * @description 获取指定名称的 cookie 值
  * @param {string} name - cookie 名称
- * @param {any} [defaultValue=null] - 当 cookie 不存在或解析失败时返回的默认值
- * @returns {any} 解析后的 JSON 值，如果不存在或解析失败则返回默认值
+ * @returns {string|null} cookie 值，如果不存在则返回 null
  */
-export function getJSONCookie(name: string, defaultValue: any = null): any {
+export function getCookie(name: string): string | null {
   try {
-    const cookieValue = getCookie(name);
-    if (cookieValue === null) return defaultValue;
-    
-    try {
-      return JSON.parse(cookieValue);
-    } catch {
-      return defaultValue;
-    }
+    return readCookie(name);
   } catch (error) {
-    console.error('获取 JSON cookie 失败:', error);
-    return defaultValue;
+    console.error('获取 cookie 失败:', error);
+    return null;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 删除指定名称的 cookie
+ * @param {string} name - cookie 名称
+ * @param {Object} [options] - cookie 选项
+ * @param {string} [options.path='/'] - cookie 路径
+ * @param {string} [options.domain] - cookie 域名
+ * @param {boolean} [options.secure] - 删除 Secure cookie 时需要设置
+ * @param {boolean} [options.partitioned] - 删除分区 cookie 时需要设置
+ * @returns {void}
+ */
+export function removeCookie(
+  name: string, 
+  options: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'partitioned'> = {}
+): void {
+  try {
+    deleteCookie(name, options);
+  } catch (error) {
+    console.error('删除 cookie 失败:', error);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 检查指定名称的 cookie 是否存在
+ * @param {string} name - cookie 名称
+ * @returns {boolean} 如果 cookie 存在则返回 true，否则返回 false
+ */
+export function hasCookie(name: string): boolean {
+  return getCookie(name) !== null;
+}
+
+/**
+ * @jsonDoc
+ * @description 获取所有 cookie 并以对象形式返回
+ * @returns {Record<string, string>} 包含所有 cookie 的对象
+ */
+export function getAllCookies(): Record<string, string> {
+  try {
+    return readAllCookies();
+  } catch (error) {
+    console.error('获取所有 cookie 失败:', error);
+    return {};
+  }
+}
+
+/**
+ * 写入 cookie，出错时直接抛出
+ */
+function writeCookie(name: string, value: string, options: CookieOptions): void {
+  const { days, maxAge, path = '/', domain, secure = false, sameSite = 'Lax', partitioned, priority, onLimit = 'warn' } = options;
+  const encodedName = encodeCookieName(name);
+  
+  let expires = options.expires;
+  if (days !== undefined) {
+    expires = new Date();
+    expires.setTime(expires.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+  
+  // 删除 cookie 时不需要检查限制
+  const isRemoval = (maxAge !== undefined && maxAge <= 0) || (expires !== undefined && expires.getTime() <= Date.now());
+  if (onLimit !== 'ignore' && !isRemoval) {
+    const limitError = checkCookieLimits(
+      encodedName,
+      encodeURIComponent(value),
+      Object.keys(parseCookie(document.cookie, { decode: raw => raw }))
+    );
+    if (limitError) {
+      if (onLimit === 'error') throw limitError;
+      console.warn('cookie 超出浏览器限制，可能会被丢弃:', limitError.message);
+    }
+  }
+  
+  document.cookie = serializeCookie(encodedName, value, {
+    expires,
+    maxAge,
+    path,
+    domain,
+    secure,
+    sameSite,
+    partitioned,
+    priority
+  });
+}
+
+/**
+ * 读取 cookie，出错时直接抛出
+ */
+function readCookie(name: string): string | null {
+  const cookies = parseCookie(document.cookie);
+  const encodedName = encodeCookieName(name);
+  if (Object.prototype.hasOwnProperty.call(cookies, encodedName)) return cookies[encodedName];
+  
+  // 兼容旧版本写入的、名称中括号未编码的 cookie
+  const legacyName = encodeURIComponent(name);
+  return Object.prototype.hasOwnProperty.call(cookies, legacyName) ? cookies[legacyName] : null;
+}
+
+/**
+ * 删除 cookie，出错时直接抛出
+ */
+function deleteCookie(
+  name: string,
+  options: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'partitioned'>
+): void {
+  // 分块存储的 JSON cookie 需要同时删除所有分块
+  const chunkCount = readCookieChunkCount(readCookie(name));
+  for (let i = 0; i < chunkCount; i++) {
+    deleteCookie(getCookieChunkName(name, i), options);
+  }
+  
+  // 设置过期时间为过去的时间来删除 cookie
+  writeCookie(name, '', {
+    days: -1,
+    path: options.path,
+    domain: options.domain,
+    secure: options.secure,
+    partitioned: options.partitioned
+  });
+  
+  // 旧版本写入的名称中括号未编码，不符合 token 语法，只能直接写入 document.cookie 删除
+  const legacyName = encodeURIComponent(name);
+  if (legacyName !== encodeCookieName(name)) {
+    const { path = '/', domain, secure, partitioned } = options;
+    document.cookie = `${legacyName}=; Max-Age=0; Path=${path}`
+      + (domain ? `; Domain=${domain}` : '')
+      + (secure ? '; Secure' : '')
+      + (partitioned ? '; Partitioned' : '');
+  }
+}
+
+/**
+ * 读取所有 cookie，出错时直接抛出
+ */
+function readAllCookies(): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  const parsed = parseCookie(document.cookie);
+  
+  Object.keys(parsed).forEach(name => {
+    cookies[decodeURIComponent(name)] = parsed[name];
+  });
+  
+  return cookies;
+}
+
+// 分块存储时主 cookie 中保存的标记，后面跟分块数量
+const COOKIE_CHUNK_MARKER = 'fschunk:';
+
+/**
+ * 获取分块 cookie 的名称
+ */
+function getCookieChunkName(name: string, index: number): string {
+  return `${name}__${index}`;
+}
+
+/**
+ * 从主 cookie 的值中读取分块数量，不是分块存储时返回 0
+ */
+function readCookieChunkCount(value: string | null): number {
+  if (value === null || !value.startsWith(COOKIE_CHUNK_MARKER)) return 0;
+  const count = parseInt(value.substring(COOKIE_CHUNK_MARKER.length), 10);
+  return isNaN(count) ? 0 : count;
+}
+
+/**
+ * 按编码后的长度拆分字符串，保证每一块编码后不超过 budget
+ */
+function splitCookieValue(value: string, budget: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let currentSize = 0;
+
+  // 按码点遍历，避免拆开代理对
+  for (const char of Array.from(value)) {
+    const size = encodeURIComponent(char).length;
+    if (currentSize + size > budget && current) {
+      chunks.push(current);
+      current = '';
+      currentSize = 0;
+    }
+    current += char;
+    currentSize += size;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// 版本化 JSON cookie 中保存 cookie 过期时间的字段，升级后写回时沿用原来的过期时间
+const COOKIE_EXPIRES_FIELD = '__fsExpires';
+
+/**
+ * 根据 cookie 选项计算过期时间戳，会话 cookie 返回 undefined
+ */
+function getCookieExpiresAt(options: CookieOptions): number | undefined {
+  const { days, maxAge, expires } = options;
+  if (maxAge !== undefined) return Date.now() + maxAge * 1000;
+  if (days !== undefined) return Date.now() + days * 24 * 60 * 60 * 1000;
+  return expires ? expires.getTime() : undefined;
+}
+
+/**
+ * @jsonDoc
+ * @description 设置带有 JSON 值的 cookie，会保留 Date、Map、Set、BigInt 等类型
+ * @param {string} name - cookie 名称
+ * @param {any} value - 要存储的 JSON 值
+ * @param {Object} [options] - cookie 选项
+ * @param {number} [options.days] - cookie 过期天数
+ * @param {string} [options.path='/'] - cookie 路径
+ * @param {string} [options.domain] - cookie 域名
+ * @param {boolean} [options.secure=false] - 是否仅通过 HTTPS 传输
+ * @param {boolean} [options.sameSite='Lax'] - SameSite 属性 ('Strict', 'Lax', 'None')
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，设置后数据会带上版本号
+ * @param {boolean} [options.chunk=false] - 超出单个 cookie 大小限制时是否拆分为多个编号的 cookie 存储
+ * @returns {void}
+ * @throws {CookieLimitError} onLimit 为 'error' 且超出限制时抛出
+ */
+export function setJSONCookie(
+  name: string, 
+  value: any, 
+  options: CookieOptions & { schema?: ValueSchema; chunk?: boolean } = {}
+): void {
+  try {
+    const { schema, chunk = false, ...cookieOptions } = options;
+    const payload = wrapVersionedValue(value, schema);
+    const expiresAt = getCookieExpiresAt(cookieOptions);
+    if (schema && expiresAt !== undefined) {
+      payload[COOKIE_EXPIRES_FIELD] = expiresAt;
+    }
+    const jsonValue = serialize(payload);
+    const encodedName = encodeCookieName(name);
+    const previousChunkCount = readCookieChunkCount(getCookie(name));
+    let chunkCount = 0;
+    
+    if (chunk && encodedName.length + 1 + encodeURIComponent(jsonValue).length > COOKIE_MAX_SIZE) {
+      // 预留分块编号的长度
+      const budget = COOKIE_MAX_SIZE - encodeCookieName(getCookieChunkName(name, 999)).length - 1;
+      const chunks = splitCookieValue(jsonValue, budget);
+      chunks.forEach((item, index) => setCookie(getCookieChunkName(name, index), item, cookieOptions));
+      setCookie(name, COOKIE_CHUNK_MARKER + chunks.length, cookieOptions);
+      chunkCount = chunks.length;
+    } else {
+      setCookie(name, jsonValue, cookieOptions);
+    }
+    
+    // 删除上一次写入时多出来的分块
+    const { path, domain, secure, partitioned } = cookieOptions;
+    for (let i = chunkCount; i < previousChunkCount; i++) {
+      removeCookie(getCookieChunkName(name, i), { path, domain, secure, partitioned });
+    }
+  } catch (error) {
+    if (error instanceof CookieLimitError) throw error;
+    console.error('设置 JSON cookie 失败:', error);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 获取指定名称的 JSON cookie 值
+ * @param {string} name - cookie 名称
+ * @param {any} [defaultValue=null] - 当 cookie 不存在、解析失败、无法升级或校验失败时返回的默认值
+ * @param {Object} [options] - 校验选项，同时作为写回升级后数据时的 cookie 选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，旧版本数据会被升级并写回。写回时沿用 setJSONCookie 记录的过期时间，没有记录时使用 options 中的过期时间
+ * @param {Function} [options.validate] - 校验函数
+ * @returns {any} 解析后的 JSON 值，如果不存在或解析失败则返回默认值
+ */
+export function getJSONCookie(
+  name: string,
+  defaultValue: any = null,
+  options: StorageReadOptions & CookieOptions = {}
+): any {
+  try {
+    let cookieValue = getCookie(name);
+    if (cookieValue === null) return defaultValue;
+    
+    // 合并分块存储的 cookie
+    const chunkCount = readCookieChunkCount(cookieValue);
+    if (chunkCount > 0) {
+      const chunks: string[] = [];
+      for (let i = 0; i < chunkCount; i++) {
+        const chunk = getCookie(getCookieChunkName(name, i));
+        if (chunk === null) return defaultValue;
+        chunks.push(chunk);
+      }
+      cookieValue = chunks.join('');
+    }
+    
+    let value: any;
+    try {
+      value = deserialize(cookieValue);
+    } catch {
+      return defaultValue;
+    }
+
+    const { schema, validate, ...cookieOptions } = options;
+    const expiresAt = isPlainObject(value) ? value[COOKIE_EXPIRES_FIELD] : undefined;
+    return resolveStoredValue(value, defaultValue, { schema, validate }, upgraded => {
+      // 沿用原来的过期时间，避免持久 cookie 被写回为会话 cookie
+      const expiry = typeof expiresAt === 'number'
+        ? { days: undefined, maxAge: undefined, expires: new Date(expiresAt) }
+        : {};
+      // 按需分块写回，原来分块存储的数据不会因为超出单个 cookie 的大小而被丢弃
+      setJSONCookie(name, upgraded, { ...cookieOptions, ...expiry, schema, chunk: true });
+    });
+  } catch (error) {
+    console.error('获取 JSON cookie 失败:', error);
+    return defaultValue;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 设置带有过期时间的 JSON cookie，同时设置 cookie 自身的过期时间
+ * @param {string} name - cookie 名称
+ * @param {any} value - 要存储的 JSON 值
+ * @param {number} expiryInSeconds - 过期时间（秒）
+ * @param {Object} [options] - cookie 选项，与 setCookie 相同
+ * @param {boolean} [options.sliding=false] - 是否启用滑动过期，每次读取都会重新计算过期时间
+ * @param {boolean} [options.chunk=false] - 超出单个 cookie 大小限制时是否拆分为多个编号的 cookie 存储
+ * @returns {void}
+ */
+export function setJSONCookieWithExpiry(
+  name: string,
+  value: any,
+  expiryInSeconds: number,
+  options: Omit<CookieOptions, 'days'> & { sliding?: boolean; chunk?: boolean } = {}
+): void {
+  const { sliding, ...cookieOptions } = options;
+  setJSONCookie(name, createExpiryItem(value, expiryInSeconds, sliding), {
+    ...cookieOptions,
+    days: expiryInSeconds / (24 * 60 * 60)
+  });
+}
+
+/**
+ * @jsonDoc
+ * @description 获取带有过期时间的 JSON cookie 值，如果已过期则删除并返回默认值
+ * @param {string} name - cookie 名称
+ * @param {any} [defaultValue=null] - 当 cookie 不存在、解析失败或已过期时返回的默认值
+ * @param {Object} [options] - 删除或续期 cookie 时使用的选项，与 setCookie 相同
+ * @returns {any} 存储的值或默认值
+ */
+export function getJSONCookieWithExpiry(
+  name: string,
+  defaultValue: any = null,
+  options: Omit<CookieOptions, 'days'> = {}
+): any {
+  return readExpiryItem(
+    getJSONCookie(name),
+    defaultValue,
+    () => removeCookie(name, { path: options.path, domain: options.domain }),
+    // 续期时按需分块写回，与 getJSONCookie 写回升级数据时一致
+    item => setJSONCookie(name, item, { ...options, days: item.ttl! / (24 * 60 * 60 * 1000), chunk: true })
+  );
+}
+
+/**
+ * 清理 Web Storage 中已过期的数据，返回清理的数量
+ */
+function purgeExpiredWebStorage(storage: Storage): number {
+  let removed = 0;
+  getWebStorageKeys(storage).forEach(key => {
+    const raw = storage.getItem(key);
+    if (raw === null) return;
+
+    try {
+      const item = JSON.parse(raw);
+      if (isOwnExpiryItem(item) && isExpired(item)) {
+        storage.removeItem(key);
+        removed++;
+      }
+    } catch {
+      // 非 JSON 数据不可能带有过期时间
+    }
+  });
+  return removed;
+}
+
+/**
+ * @jsonDoc
+ * @description 清理各存储中已过期的数据，不必等到读取时才删除。只清理本库带过期时间写入的数据，其他程序写入的同结构数据不受影响
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.local=true] - 是否清理 localStorage
+ * @param {boolean} [options.session=true] - 是否清理 sessionStorage
+ * @param {boolean} [options.cookies=false] - 是否清理 JSON cookie（cookie 本身也会被浏览器按过期时间删除）
+ * @param {Array} [options.indexedDB] - 需要清理的 IndexedDB 对象仓库列表，每项包含 client 和 storeName
+ * @param {KeyValueStorage[]} [options.storages] - 需要清理的统一键值存储实例
+ * @returns {Promise<number>} 清理的数据条数
+ */
+export async function purgeExpired(
+  options: {
+    local?: boolean;
+    session?: boolean;
+    cookies?: boolean;
+    indexedDB?: Array<{ client: IndexedDBClient; storeName: string }>;
+    storages?: KeyValueStorage[];
+  } = {}
+): Promise<number> {
+  const { local = true, session = true, cookies = false, indexedDB: stores = [], storages = [] } = options;
+  let removed = 0;
+
+  if (local && isLocalStorageSupported()) {
+    removed += purgeExpiredWebStorage(localStorage);
+  }
+
+  if (session && isSessionStorageSupported()) {
+    removed += purgeExpiredWebStorage(sessionStorage);
+  }
+
+  if (cookies && typeof document !== 'undefined') {
+    Object.keys(getAllCookies()).forEach(name => {
+      const item = getJSONCookie(name);
+      if (isOwnExpiryItem(item) && isExpired(item)) {
+        removeCookie(name);
+        removed++;
+      }
+    });
+  }
+
+  for (const { client, storeName } of stores) {
+    removed += await client.purgeExpired(storeName);
+  }
+
+  for (const storage of storages) {
+    removed += await storage.purgeExpired();
+  }
+
+  return removed;
+}
+
+/**
+ * @jsonDoc
+ * @description 定时清理已过期的数据
+ * @param {number} interval - 清理间隔（毫秒）
+ * @param {Object} [options] - 清理选项，与 purgeExpired 相同
+ * @param {Function} [onPurge] - 每次清理完成后的回调函数，参数为清理的数量
+ * @returns {Function} 停止定时清理的函数
+ */
+export function schedulePurgeExpired(
+  interval: number,
+  options: Parameters<typeof purgeExpired>[0] = {},
+  onPurge?: (removed: number) => void
+): () => void {
+  const run = () => {
+    purgeExpired(options)
+      .then(removed => {
+        if (onPurge) {
+          onPurge(removed);
+        }
+      })
+      .catch(error => console.error('清理过期数据失败:', error));
+  };
+
+  run();
+  const timer = setInterval(run, interval);
+
+  // 返回停止定时清理的函数
+  return () => clearInterval(timer);
+}
+
+/**
+ * @jsonDoc
+ * @description 存储驱动接口，负责按键读写字符串值，可以是同步或异步实现
+ */
+export interface StorageDriver {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * @jsonDoc
+ * @description 内置存储驱动名称
+ */
+export type StorageDriverName = 'local' | 'session' | 'cookie' | 'indexedDB' | 'memory';
+
+/**
+ * 基于 Web Storage（localStorage / sessionStorage）创建驱动，延迟访问以兼容 SSR
+ */
+function createWebStorageDriver(getStorage: () => Storage): StorageDriver {
+  return {
+    getItem: key => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: key => getStorage().removeItem(key),
+    keys: () => getWebStorageKeys(getStorage()),
+    clear: () => getStorage().clear()
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 创建 localStorage 存储驱动
+ * @returns {StorageDriver} 存储驱动
+ */
+export function createLocalStorageDriver(): StorageDriver {
+  return createWebStorageDriver(() => localStorage);
+}
+
+/**
+ * @jsonDoc
+ * @description 创建 sessionStorage 存储驱动
+ * @returns {StorageDriver} 存储驱动
+ */
+export function createSessionStorageDriver(): StorageDriver {
+  return createWebStorageDriver(() => sessionStorage);
+}
+
+/**
+ * @jsonDoc
+ * @description 创建 cookie 存储驱动
+ * @param {Object} [options] - 写入 cookie 时使用的选项，与 setCookie 相同
+ * @returns {StorageDriver} 存储驱动
+ */
+export function createCookieDriver(options: CookieOptions = {}): StorageDriver {
+  const { path, domain } = options;
+  // 与其他驱动一致，出错时直接抛出，由 KeyValueStorage 的 Promise reject
+  return {
+    getItem: key => readCookie(key),
+    setItem: (key, value) => writeCookie(key, value, options),
+    removeItem: key => deleteCookie(key, { path, domain }),
+    keys: () => Object.keys(readAllCookies()),
+    clear: () => {
+      Object.keys(readAllCookies()).forEach(key => deleteCookie(key, { path, domain }));
+    }
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 创建 IndexedDB 存储驱动，数据以键值对形式保存在单个对象仓库中
+ * @param {Object} [options] - 配置选项
+ * @param {string} [options.dbName='fs-utils-lib'] - 数据库名称
+ * @param {string} [options.storeName='keyval'] - 对象仓库名称
+ * @param {IndexedDBClient} [options.client] - 复用已有的客户端，此时需自行保证对象仓库已创建
+ * @returns {StorageDriver} 存储驱动
+ */
+export function createIndexedDBDriver(
+  options: { dbName?: string; storeName?: string; client?: IndexedDBClient } = {}
+): StorageDriver {
+  const { dbName = 'fs-utils-lib', storeName = 'keyval' } = options;
+  const client = options.client || new IndexedDBClient(dbName, {
+    stores: { [storeName]: { keyPath: null, autoIncrement: false } }
+  });
+
+  return {
+    getItem: async key => {
+      const value = await client.get<string>(storeName, key);
+      return value === undefined ? null : value;
+    },
+    setItem: async (key, value) => {
+      const oldValue = await client.get<string>(storeName, key);
+      await client.put(storeName, value, key);
+      broadcastStorageChange('indexedDB', key, oldValue ?? null, value);
+    },
+    removeItem: async key => {
+      const oldValue = await client.get<string>(storeName, key);
+      await client.delete(storeName, key);
+      if (oldValue !== undefined) {
+        broadcastStorageChange('indexedDB', key, oldValue, null);
+      }
+    },
+    keys: async () => (await client.getAllKeys(storeName)).map(key => String(key)),
+    clear: async () => {
+      await client.clear(storeName);
+      broadcastStorageChange('indexedDB', null, null, null);
+    }
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 创建内存存储驱动，适用于测试和 SSR 环境
+ * @param {Map<string, string>} [map=new Map()] - 底层存储使用的 Map
+ * @returns {StorageDriver} 存储驱动
+ */
+export function createMemoryDriver(map: Map<string, string> = new Map()): StorageDriver {
+  return {
+    getItem: key => (map.has(key) ? map.get(key)! : null),
+    setItem: (key, value) => {
+      map.set(key, value);
+    },
+    removeItem: key => {
+      map.delete(key);
+    },
+    keys: () => Array.from(map.keys()),
+    clear: () => map.clear()
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 为存储驱动添加命名空间，所有键自动添加前缀，keys 和 clear 只作用于该命名空间
+ * @param {StorageDriver} driver - 原始存储驱动
+ * @param {string} namespace - 命名空间名称
+ * @param {string} [separator=':'] - 命名空间与键名之间的分隔符
+ * @returns {StorageDriver} 带命名空间的存储驱动
+ */
+export function createNamespacedDriver(driver: StorageDriver, namespace: string, separator: string = ':'): StorageDriver {
+  const prefix = namespace + separator;
+  const ownKeys = async () => (await driver.keys())
+    .filter(key => key.startsWith(prefix))
+    .map(key => key.substring(prefix.length));
+
+  return {
+    getItem: key => driver.getItem(prefix + key),
+    setItem: (key, value) => driver.setItem(prefix + key, value),
+    removeItem: key => driver.removeItem(prefix + key),
+    keys: ownKeys,
+    clear: async () => {
+      const keys = await ownKeys();
+      for (const key of keys) {
+        await driver.removeItem(prefix + key);
+      }
+    }
+  };
+}
+
+/**
+ * 根据名称创建内置驱动
+ */
+function resolveStorageDriver(driver: StorageDriver | StorageDriverName): StorageDriver {
+  if (typeof driver !== 'string') return driver;
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorageDriver();
+    case 'session':
+      return createSessionStorageDriver();
+    case 'cookie':
+      return createCookieDriver();
+    case 'indexedDB':
+      return createIndexedDBDriver();
+    case 'memory':
+      return createMemoryDriver();
+    default:
+      throw new Error(`不支持的存储驱动: ${driver}`);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 统一的键值存储类，所有驱动使用相同的异步接口和 serialize 序列化方式，驱动出错时 Promise 会被 reject
+ */
+export class KeyValueStorage<T = any> {
+  private driver: StorageDriver;
+  private schema?: ValueSchema<T>;
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的键值存储实例
+   * @param {StorageDriver|string} driver - 存储驱动或内置驱动名称
+   * @param {Object} [options] - 配置选项
+   * @param {string} [options.namespace] - 命名空间，设置后所有键自动添加前缀
+   * @param {ValueSchema} [options.schema] - 版本化结构定义，读取到旧版本数据时自动升级
+   */
+  constructor(
+    driver: StorageDriver | StorageDriverName,
+    options: { namespace?: string; schema?: ValueSchema<T> } = {}
+  ) {
+    const resolved = resolveStorageDriver(driver);
+    this.driver = options.namespace ? createNamespacedDriver(resolved, options.namespace) : resolved;
+    this.schema = options.schema;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取存储的值
+   * @param {string} key - 存储键名
+   * @param {T} [defaultValue=null] - 当键不存在、已过期、无法升级或校验失败时返回的默认值
+   * @returns {Promise<T|null>} 存储的值或默认值
+   */
+  async get(key: string): Promise<T | null>;
+  async get(key: string, defaultValue: T): Promise<T>;
+  async get(key: string, defaultValue: T | null = null): Promise<T | null> {
+    const raw = await this.driver.getItem(key);
+    if (raw === null) return defaultValue;
+
+    // 兼容 setLocalStorage 等函数直接写入的字符串
+    const item = parseStoredValue(raw);
+    let expiryItem: ExpiryItem | null = null;
+    let value = item;
+    let changed = false;
+
+    if (isOwnExpiryItem(item)) {
+      if (isExpired(item)) {
+        await this.driver.removeItem(key);
+        return defaultValue;
+      }
+      value = item.value;
+      expiryItem = item.ttl !== undefined ? { ...item, expiry: Date.now() + item.ttl } : item;
+      changed = item.ttl !== undefined;
+    }
+
+    const result = resolveStoredValue(value, defaultValue, { schema: this.schema }, upgraded => {
+      value = upgraded;
+      changed = true;
+    });
+
+    if (changed) {
+      const payload = this.schema ? wrapVersionedValue(value, this.schema) : value;
+      await this.driver.setItem(key, serialize(expiryItem ? { ...expiryItem, value: payload } : payload));
+    }
+    return result;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 存储值
+   * @param {string} key - 存储键名
+   * @param {T} value - 要存储的值
+   * @param {Object} [options] - 配置选项
+   * @param {number} [options.ttl] - 过期时间（秒），不传则永不过期
+   * @param {boolean} [options.sliding=false] - 是否启用滑动过期，每次读取都会重新计算过期时间
+   * @returns {Promise<void>}
+   */
+  async set(key: string, value: T, options: { ttl?: number; sliding?: boolean } = {}): Promise<void> {
+    const { ttl, sliding } = options;
+    const payload = wrapVersionedValue(value, this.schema);
+    const item = ttl !== undefined ? createExpiryItem(payload, ttl, sliding) : payload;
+    await this.driver.setItem(key, serialize(item));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 移除存储的值
+   * @param {string} key - 存储键名
+   * @returns {Promise<void>}
+   */
+  async remove(key: string): Promise<void> {
+    await this.driver.removeItem(key);
   }
-} 
\ No newline at end of file
+
+  /**
+   * @jsonDoc
+   * @description 检查键是否存在
+   * @param {string} key - 存储键名
+   * @returns {Promise<boolean>} 如果存在则返回 true
+   */
+  async has(key: string): Promise<boolean> {
+    return (await this.driver.getItem(key)) !== null;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取所有键名
+   * @returns {Promise<string[]>} 键名数组
+   */
+  async keys(): Promise<string[]> {
+    return this.driver.keys();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清空存储
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    await this.driver.clear();
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清理已过期的数据，只清理通过 set 设置了 ttl 的数据
+   * @returns {Promise<number>} 清理的数据条数
+   */
+  async purgeExpired(): Promise<number> {
+    let removed = 0;
+    const keys = await this.driver.keys();
+
+    for (const key of keys) {
+      const raw = await this.driver.getItem(key);
+      if (raw === null) continue;
+
+      try {
+        const item = deserialize(raw);
+        if (isOwnExpiryItem(item) && isExpired(item)) {
+          await this.driver.removeItem(key);
+          removed++;
+        }
+      } catch {
+        // 非 JSON 数据不可能带有过期时间
+      }
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建统一的键值存储实例，切换驱动无需修改业务代码
+ * @param {Object} options - 配置选项
+ * @param {StorageDriver|string} options.driver - 存储驱动或内置驱动名称（'local', 'session', 'cookie', 'indexedDB', 'memory'）
+ * @param {string} [options.namespace] - 命名空间，设置后所有键自动添加前缀
+ * @param {ValueSchema} [options.schema] - 版本化结构定义，读取到旧版本数据时自动升级
+ * @returns {KeyValueStorage<T>} 键值存储实例
+ */
+export function createStorage<T = any>(
+  options: { driver: StorageDriver | StorageDriverName; namespace?: string; schema?: ValueSchema<T> }
+): KeyValueStorage<T> {
+  const { driver, ...storageOptions } = options;
+  return new KeyValueStorage<T>(driver, storageOptions);
+}
+
+/**
+ * @jsonDoc
+ * @description 加密存储配置
+ */
+export interface EncryptedStorageOptions {
+  // 存储驱动或内置驱动名称，'local' 和 'session' 与 setLocalStorage、setSessionStorage 使用相同的存储格式
+  driver: StorageDriver | StorageDriverName;
+  // 口令或 AES-GCM 密钥，口令会通过 PBKDF2 派生为密钥
+  secret: string | CryptoKey;
+  // 旧的口令或密钥，当前密钥解密失败时依次尝试，成功后自动使用当前密钥重新加密
+  previousSecrets?: Array<string | CryptoKey>;
+  // PBKDF2 盐值，不传则随机生成并保存在存储中
+  salt?: string;
+  // PBKDF2 迭代次数
+  iterations?: number;
+  // 命名空间，设置后所有键自动添加前缀
+  namespace?: string;
+}
+
+// 加密数据的前缀，用于识别数据格式
+const ENCRYPTED_PREFIX = 'fsenc:1:';
+// 自动生成的盐值在存储中的键名
+const SALT_KEY = '__fs_utils_crypto_salt__';
+
+/**
+ * 创建加密存储使用的 Web Storage 驱动，数据格式和变化广播与 setLocalStorage、setSessionStorage 一致，
+ * 但写入失败（如空间不足）时直接抛出，使加密存储的 Promise 被 reject
+ */
+function createEncryptedWebStorageDriver(area: 'local' | 'session'): StorageDriver {
+  const getStorage = () => (area === 'local' ? localStorage : sessionStorage);
+  // localStorage 的变化由浏览器的 storage 事件通知其他标签页，sessionStorage 需要手动广播
+  const notify = (key: string | null, oldValue: string | null, newValue: string | null) => {
+    if (area === 'session') {
+      broadcastStorageChange('session', key, oldValue, newValue);
+    }
+  };
+
+  return {
+    getItem: key => getStorage().getItem(key),
+    setItem: (key, value) => {
+      const oldValue = getStorage().getItem(key);
+      getStorage().setItem(key, value);
+      notify(key, oldValue, value);
+    },
+    removeItem: key => {
+      const oldValue = getStorage().getItem(key);
+      getStorage().removeItem(key);
+      if (oldValue !== null) {
+        notify(key, oldValue, null);
+      }
+    },
+    keys: () => getWebStorageKeys(getStorage()),
+    clear: () => {
+      getStorage().clear();
+      notify(null, null, null);
+    }
+  };
+}
+
+/**
+ * @jsonDoc
+ * @description 加密存储类，使用 AES-GCM 加密后再写入底层存储，支持密钥轮换
+ */
+export class EncryptedStorage<T = any> {
+  private driver: StorageDriver;
+  private secret: string | CryptoKey;
+  private previousSecrets: Array<string | CryptoKey>;
+  private salt?: string;
+  private autoSalt: boolean;
+  private iterations: number;
+  private keyCache = new Map<string | CryptoKey, Promise<CryptoKey>>();
+
+  /**
+   * @jsonDoc
+   * @description 创建一个新的加密存储实例
+   * @param {EncryptedStorageOptions} options - 配置选项
+   */
+  constructor(options: EncryptedStorageOptions) {
+    const { driver } = options;
+    const resolved = driver === 'local' || driver === 'session'
+      ? createEncryptedWebStorageDriver(driver)
+      : resolveStorageDriver(driver);
+    this.driver = options.namespace ? createNamespacedDriver(resolved, options.namespace) : resolved;
+    this.secret = options.secret;
+    this.previousSecrets = options.previousSecrets || [];
+    this.salt = options.salt;
+    this.autoSalt = !options.salt;
+    this.iterations = options.iterations ?? 100000;
+  }
+
+  /**
+   * 获取 PBKDF2 盐值，未配置时读取或生成保存在存储中的盐值
+   */
+  private async getSalt(): Promise<string> {
+    if (this.salt) return this.salt;
+
+    let salt = await this.driver.getItem(SALT_KEY);
+    if (salt === null) {
+      salt = generateSalt();
+      await this.driver.setItem(SALT_KEY, salt);
+    }
+    this.salt = salt;
+    return salt;
+  }
+
+  /**
+   * 将口令或密钥转换为 CryptoKey，派生结果会被缓存
+   */
+  private getKey(secret: string | CryptoKey): Promise<CryptoKey> {
+    if (typeof secret !== 'string') return Promise.resolve(secret);
+
+    let key = this.keyCache.get(secret);
+    if (!key) {
+      key = this.getSalt().then(salt => deriveKeyFromPassphrase(secret, salt, this.iterations));
+      // 派生失败时不缓存，便于下次重试
+      key.catch(() => this.keyCache.delete(secret));
+      this.keyCache.set(secret, key);
+    }
+    return key;
+  }
+
+  private async encrypt(value: T, secret: string | CryptoKey = this.secret): Promise<string> {
+    const key = await this.getKey(secret);
+    return ENCRYPTED_PREFIX + await encryptAESGCM(serialize(value), key);
+  }
+
+  /**
+   * 依次尝试当前密钥和旧密钥解密，返回解密结果及是否使用了旧密钥
+   */
+  private async decrypt(key: string, raw: string): Promise<{ value: T; stale: boolean }> {
+    if (!raw.startsWith(ENCRYPTED_PREFIX)) {
+      throw new DecryptionError(`解密 ${key} 失败：数据不是加密格式`);
+    }
+
+    const payload = raw.substring(ENCRYPTED_PREFIX.length);
+    const secrets = [this.secret, ...this.previousSecrets];
+    for (let i = 0; i < secrets.length; i++) {
+      try {
+        const plaintext = await decryptAESGCM(payload, await this.getKey(secrets[i]));
+        return { value: deserialize(plaintext), stale: i > 0 };
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) throw error;
+      }
+    }
+
+    throw new DecryptionError(`解密 ${key} 失败：密钥错误或数据已损坏`);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取并解密存储的值，使用旧密钥加密的数据会被自动重新加密
+   * @param {string} key - 存储键名
+   * @param {T} [defaultValue=null] - 当键不存在时返回的默认值
+   * @returns {Promise<T|null>} 解密后的值或默认值
+   * @throws {DecryptionError} 所有密钥都无法解密时抛出
+   */
+  async get(key: string): Promise<T | null>;
+  async get(key: string, defaultValue: T): Promise<T>;
+  async get(key: string, defaultValue: T | null = null): Promise<T | null> {
+    const raw = await this.driver.getItem(key);
+    if (raw === null) return defaultValue;
+
+    const { value, stale } = await this.decrypt(key, raw);
+    if (stale) {
+      await this.driver.setItem(key, await this.encrypt(value));
+    }
+    return value;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 加密并存储值
+   * @param {string} key - 存储键名
+   * @param {T} value - 要存储的值
+   * @returns {Promise<void>}
+   */
+  async set(key: string, value: T): Promise<void> {
+    await this.driver.setItem(key, await this.encrypt(value));
+  }
+
+  /**
+   * @jsonDoc
+   * @description 移除存储的值
+   * @param {string} key - 存储键名
+   * @returns {Promise<void>}
+   */
+  async remove(key: string): Promise<void> {
+    await this.driver.removeItem(key);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 检查键是否存在
+   * @param {string} key - 存储键名
+   * @returns {Promise<boolean>} 如果存在则返回 true
+   */
+  async has(key: string): Promise<boolean> {
+    return (await this.driver.getItem(key)) !== null;
+  }
+
+  /**
+   * @jsonDoc
+   * @description 获取所有键名（不包含内部使用的盐值键）
+   * @returns {Promise<string[]>} 键名数组
+   */
+  async keys(): Promise<string[]> {
+    return (await this.driver.keys()).filter(key => key !== SALT_KEY);
+  }
+
+  /**
+   * @jsonDoc
+   * @description 清空存储
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    await this.driver.clear();
+    // 自动生成的盐值也被清除了，下次写入时重新生成盐值并派生密钥
+    if (this.autoSalt) {
+      this.salt = undefined;
+      this.keyCache.clear();
+    }
+  }
+
+  /**
+   * @jsonDoc
+   * @description 轮换密钥：使用新密钥重新加密所有加密数据，旧密钥保留为 previousSecrets。存储中其他程序写入的非加密数据会被跳过
+   * @param {string|CryptoKey} newSecret - 新的口令或密钥
+   * @returns {Promise<number>} 重新加密的数据条数
+   * @throws {DecryptionError} 存在无法解密的加密数据时抛出，此时不会写入任何数据
+   */
+  async rotateKey(newSecret: string | CryptoKey): Promise<number> {
+    const keys = await this.keys();
+    const entries: Array<[string, T]> = [];
+
+    // 先全部解密，确保不会出现一半新密钥一半旧密钥的情况
+    for (const key of keys) {
+      const raw = await this.driver.getItem(key);
+      if (raw === null || !raw.startsWith(ENCRYPTED_PREFIX)) continue;
+      const { value } = await this.decrypt(key, raw);
+      entries.push([key, value]);
+    }
+
+    for (const [key, value] of entries) {
+      await this.driver.setItem(key, await this.encrypt(value, newSecret));
+    }
+
+    this.previousSecrets = [this.secret, ...this.previousSecrets];
+    this.secret = newSecret;
+    return entries.length;
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 创建加密存储实例
+ * @param {EncryptedStorageOptions} options - 配置选项
+ * @param {StorageDriver|string} options.driver - 存储驱动或内置驱动名称（'local', 'session', 'indexedDB' 等），'local' 和 'session' 与 setLocalStorage、setSessionStorage 使用相同的存储格式
+ * @param {string|CryptoKey} options.secret - 口令或 AES-GCM 密钥
+ * @param {Array} [options.previousSecrets] - 旧的口令或密钥
+ * @param {string} [options.salt] - PBKDF2 盐值，不传则随机生成并保存在存储中
+ * @param {number} [options.iterations=100000] - PBKDF2 迭代次数
+ * @param {string} [options.namespace] - 命名空间
+ * @returns {EncryptedStorage<T>} 加密存储实例
+ */
+export function createEncryptedStorage<T = any>(options: EncryptedStorageOptions): EncryptedStorage<T> {
+  return new EncryptedStorage<T>(options);
+}
+
+/**
+ * @jsonDoc
+ * @description 存储变化所在的存储区域
+ */
+export type StorageChangeArea = 'local' | 'session' | 'indexedDB';
+
+/**
+ * @jsonDoc
+ * @description 存储变化信息，key 为 null 表示整个存储被清空
+ */
+export interface StorageChange {
+  area: StorageChangeArea;
+  key: string | null;
+  oldValue: any;
+  newValue: any;
+}
+
+/**
+ * 跨标签页广播的消息格式
+ */
+interface StorageBroadcastMessage {
+  source: string;
+  area: StorageChangeArea;
+  key: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+const STORAGE_CHANNEL_NAME = 'fs-utils-lib:storage';
+// 当前标签页的标识，用于忽略自己发出的广播
+const TAB_ID = uniqueId('tab');
+let storageChannel: BroadcastChannel | null = null;
+
+/**
+ * 通过 BroadcastChannel 通知其他标签页存储发生变化
+ */
+function broadcastStorageChange(
+  area: StorageChangeArea,
+  key: string | null,
+  oldValue: string | null,
+  newValue: string | null
+): void {
+  if (typeof BroadcastChannel === 'undefined') return;
+
+  try {
+    if (!storageChannel) {
+      storageChannel = new BroadcastChannel(STORAGE_CHANNEL_NAME);
+    }
+    const message: StorageBroadcastMessage = { source: TAB_ID, area, key, oldValue, newValue };
+    storageChannel.postMessage(message);
+  } catch (error) {
+    console.error('广播存储变化失败:', error);
+  }
+}
+
+/**
+ * @jsonDoc
+ * @description 监听其他标签页中的存储变化。localStorage 使用 storage 事件，sessionStorage 和 IndexedDB 驱动的写入通过 BroadcastChannel 通知
+ * @param {string} key - 要监听的键名，prefix 为 true 时表示键名前缀
+ * @param {Function} callback - 变化时调用的回调函数，参数包含存储区域、键名以及解析后的旧值和新值
+ * @param {Object} [options] - 配置选项
+ * @param {boolean} [options.prefix=false] - 是否按前缀匹配键名
+ * @param {string[]} [options.areas=['local', 'session', 'indexedDB']] - 要监听的存储区域
+ * @returns {Function} 取消监听的函数
+ */
+export function watchStorage(
+  key: string,
+  callback: (change: StorageChange) => void,
+  options: { prefix?: boolean; areas?: StorageChangeArea[] } = {}
+): () => void {
+  const { prefix = false, areas = ['local', 'session', 'indexedDB'] } = options;
+
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  // key 为 null 表示存储被清空，对所有监听者都有影响
+  const matches = (changedKey: string | null) =>
+    changedKey === null || (prefix ? changedKey.startsWith(key) : changedKey === key);
+
+  const notify = (
+    area: StorageChangeArea,
+    changedKey: string | null,
+    oldValue: string | null,
+    newValue: string | null
+  ) => {
+    if (!areas.includes(area) || !matches(changedKey)) return;
+    callback({
+      area,
+      key: changedKey,
+      oldValue: oldValue === null ? null : parseStoredValue(oldValue),
+      newValue: newValue === null ? null : parseStoredValue(newValue)
+    });
+  };
+
+  const storageHandler = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    notify('local', event.key, event.oldValue, event.newValue);
+  };
+  window.addEventListener('storage', storageHandler);
+
+  let channel: BroadcastChannel | null = null;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(STORAGE_CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<StorageBroadcastMessage>) => {
+      const { source, area, key: changedKey, oldValue, newValue } = event.data;
+      if (source === TAB_ID) return;
+      notify(area, changedKey, oldValue, newValue);
+    };
+  }
+
+  // 返回取消监听的函数
+  return () => {
+    window.removeEventListener('storage', storageHandler);
+    if (channel) {
+      channel.close();
+    }
+  };
+}
@@ -0,0 +1,267 @@
+import { Ref, getCurrentScope, onScopeDispose, ref, watch } from 'vue';
+import { serialize } from './common';
+import {
+  CookieOptions,
+  StorageChange,
+  StorageChangeArea,
+  StorageReadOptions,
+  ValueSchema,
+  getCookie,
+  getJSONCookie,
+  getLocalStorage,
+  getSessionStorage,
+  migrateStoredValue,
+  removeCookie,
+  removeLocalStorage,
+  removeSessionStorage,
+  setJSONCookie,
+  setLocalStorage,
+  setSessionStorage,
+  watchStorage
+} from './storage';
+
+/**
+ * @jsonDoc
+ * @description 响应式存储绑定的配置选项
+ */
+export interface UseStorageOptions<T = any> extends StorageReadOptions<T> {
+  // 是否深度监听对象内部的修改，默认为 true
+  deep?: boolean;
+  // 是否同步其他标签页中的修改，默认为 true
+  listenToChanges?: boolean;
+  // 存储中没有数据时是否立即写入默认值，默认为 false
+  writeDefaults?: boolean;
+}
+
+/**
+ * 存储读写函数
+ */
+interface StorageAccessor<T> {
+  read: () => T;
+  write: (value: T) => void;
+  remove: () => void;
+  exists: () => boolean;
+}
+
+/**
+ * 判断是否处于浏览器环境
+ */
+function isClient(): boolean {
+  return typeof window !== 'undefined';
+}
+
+/**
+ * 在当前组件或 effect 作用域销毁时执行清理
+ */
+function tryOnScopeDispose(fn: () => void): void {
+  if (getCurrentScope()) {
+    onScopeDispose(fn);
+  }
+}
+
+/**
+ * 按读取选项处理其他标签页广播过来的新值
+ */
+function resolveChangedValue<T>(change: StorageChange, defaultValue: T, options: StorageReadOptions<T>): T {
+  if (change.newValue === null) return defaultValue;
+
+  let value = change.newValue;
+  if (options.schema) {
+    const migration = migrateStoredValue(value, options.schema);
+    if (!migration.ok) return defaultValue;
+    value = migration.value;
+  }
+
+  if (options.validate && !options.validate(value)) return defaultValue;
+  return value;
+}
+
+/**
+ * 创建与存储同步的 ref，ref 修改时写入存储，赋值为 null 或 undefined 时删除存储中的数据
+ */
+function useStorageRef<T>(
+  accessor: StorageAccessor<T>,
+  defaultValue: T,
+  options: UseStorageOptions<T>,
+  subscribe: (update: (value: T) => void) => () => void
+): Ref<T> {
+  const { deep = true, listenToChanges = true, writeDefaults = false } = options;
+
+  // SSR 环境下只返回默认值
+  if (!isClient()) {
+    return ref(defaultValue) as Ref<T>;
+  }
+
+  if (writeDefaults && !accessor.exists() && defaultValue !== null && defaultValue !== undefined) {
+    accessor.write(defaultValue);
+  }
+
+  const data = ref(accessor.read()) as Ref<T>;
+  // 从存储同步数据时暂停写入，避免写回刚读到的值
+  let paused = false;
+
+  const stopWatch = watch(
+    data,
+    value => {
+      if (paused) return;
+      if (value === null || value === undefined) {
+        accessor.remove();
+      } else {
+        accessor.write(value);
+      }
+    },
+    { deep, flush: 'sync' }
+  );
+
+  const update = (value: T) => {
+    paused = true;
+    try {
+      data.value = value;
+    } finally {
+      paused = false;
+    }
+  };
+
+  const unsubscribe = listenToChanges ? subscribe(update) : () => {};
+
+  tryOnScopeDispose(() => {
+    stopWatch();
+    unsubscribe();
+  });
+
+  return data;
+}
+
+/**
+ * 创建监听 Web Storage 跨标签页变化的订阅函数
+ */
+function subscribeWebStorage<T>(
+  area: StorageChangeArea,
+  key: string,
+  defaultValue: T,
+  options: StorageReadOptions<T>
+): (update: (value: T) => void) => () => void {
+  return update => watchStorage(
+    key,
+    change => update(resolveChangedValue(change, defaultValue, options)),
+    { areas: [area] }
+  );
+}
+
+/**
+ * @jsonDoc
+ * @description 创建与 localStorage 同步的 ref，修改 ref 会写入 localStorage，其他标签页的修改会同步到 ref
+ * @param {string} key - 存储键名
+ * @param {any} defaultValue - 存储中没有数据、无法升级或校验失败时使用的默认值
+ * @param {UseStorageOptions} [options] - 配置选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义
+ * @param {Function} [options.validate] - 校验函数
+ * @param {boolean} [options.deep=true] - 是否深度监听对象内部的修改
+ * @param {boolean} [options.listenToChanges=true] - 是否同步其他标签页中的修改
+ * @param {boolean} [options.writeDefaults=false] - 存储中没有数据时是否立即写入默认值
+ * @returns {Ref} 与 localStorage 同步的 ref，SSR 环境下为普通 ref
+ */
+export function useLocalStorage<T>(key: string, defaultValue: T, options: UseStorageOptions<T> = {}): Ref<T> {
+  const { schema, validate } = options;
+  return useStorageRef<T>(
+    {
+      read: () => getLocalStorage(key, defaultValue, { schema, validate }),
+      write: value => setLocalStorage(key, value, { schema }),
+      remove: () => removeLocalStorage(key),
+      exists: () => localStorage.getItem(key) !== null
+    },
+    defaultValue,
+    options,
+    subscribeWebStorage('local', key, defaultValue, { schema, validate })
+  );
+}
+
+/**
+ * @jsonDoc
+ * @description 创建与 sessionStorage 同步的 ref，修改 ref 会写入 sessionStorage，其他标签页广播的修改会同步到 ref
+ * @param {string} key - 存储键名
+ * @param {any} defaultValue - 存储中没有数据、无法升级或校验失败时使用的默认值
+ * @param {UseStorageOptions} [options] - 配置选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义
+ * @param {Function} [options.validate] - 校验函数
+ * @param {boolean} [options.deep=true] - 是否深度监听对象内部的修改
+ * @param {boolean} [options.listenToChanges=true] - 是否同步其他标签页中的修改
+ * @param {boolean} [options.writeDefaults=false] - 存储中没有数据时是否立即写入默认值
+ * @returns {Ref} 与 sessionStorage 同步的 ref，SSR 环境下为普通 ref
+ */
+export function useSessionStorage<T>(key: string, defaultValue: T, options: UseStorageOptions<T> = {}): Ref<T> {
+  const { schema, validate } = options;
+  return useStorageRef<T>(
+    {
+      read: () => getSessionStorage(key, defaultValue, { schema, validate }),
+      write: value => setSessionStorage(key, value, { schema }),
+      remove: () => removeSessionStorage(key),
+      exists: () => sessionStorage.getItem(key) !== null
+    },
+    defaultValue,
+    options,
+    subscribeWebStorage('session', key, defaultValue, { schema, validate })
+  );
+}
+
+/**
+ * @jsonDoc
+ * @description 创建与 cookie 同步的 ref，值以 JSON 格式存储。支持 cookieStore 的浏览器会实时同步其他标签页的修改，其他浏览器在页面重新可见时同步
+ * @param {string} name - cookie 名称
+ * @param {any} defaultValue - cookie 不存在、无法升级或校验失败时使用的默认值
+ * @param {Object} [options] - 配置选项，同时支持 setCookie 的所有选项
+ * @param {ValueSchema} [options.schema] - 版本化结构定义
+ * @param {Function} [options.validate] - 校验函数
+ * @param {boolean} [options.chunk=false] - 超出单个 cookie 大小限制时是否分块存储
+ * @param {boolean} [options.deep=true] - 是否深度监听对象内部的修改
+ * @param {boolean} [options.listenToChanges=true] - 是否同步其他标签页中的修改
+ * @param {boolean} [options.writeDefaults=false] - cookie 不存在时是否立即写入默认值
+ * @returns {Ref} 与 cookie 同步的 ref，SSR 环境下为普通 ref
+ */
+export function useCookie<T>(
+  name: string,
+  defaultValue: T,
+  options: UseStorageOptions<T> & CookieOptions & { schema?: ValueSchema<T>; chunk?: boolean } = {}
+): Ref<T> {
+  const { deep, listenToChanges, writeDefaults, validate, ...cookieOptions } = options;
+  const { path, domain, secure, partitioned } = cookieOptions;
+  const read = (): T => getJSONCookie(name, defaultValue, { ...cookieOptions, validate });
+
+  return useStorageRef<T>(
+    {
+      read,
+      write: value => setJSONCookie(name, value, cookieOptions),
+      remove: () => removeCookie(name, { path, domain, secure, partitioned }),
+      exists: () => getCookie(name) !== null
+    },
+    defaultValue,
+    options,
+    update => {
+      let current = serialize(read());
+      // cookie 没有变化时不更新 ref，避免触发无意义的监听
+      const refresh = () => {
+        const value = read();
+        const next = serialize(value);
+        if (next === current) return;
+        current = next;
+        update(value);
+      };
+
+      const cookieStore = (window as any).cookieStore;
+      if (cookieStore && typeof cookieStore.addEventListener === 'function') {
+        cookieStore.addEventListener('change', refresh);
+      }
+      const visibilityHandler = () => {
+        if (document.visibilityState === 'visible') refresh();
+      };
+      document.addEventListener('visibilitychange', visibilityHandler);
+
+      return () => {
+        if (cookieStore && typeof cookieStore.removeEventListener === 'function') {
+          cookieStore.removeEventListener('change', refresh);
+        }
+        document.removeEventListener('visibilitychange', visibilityHandler);
+      };
+    }
+  );
+}
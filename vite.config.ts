@@ -2,7 +2,49 @@ import { defineConfig } from 'vite';
 import dts from 'vite-plugin-dts';
 import { resolve } from 'path'
 
-export default defineConfig({
+// vue 是可选依赖，响应式存储绑定单独打包为 fs-utils-lib/vue，通过 vite build --mode vue 构建
+const vueEntryConfig = defineConfig({
+    plugins: [
+        {
+            // 存储函数从主入口引入，与主入口共享同一份状态
+            name: 'fs-utils-lib-external',
+            enforce: 'pre',
+            resolveId: (source, importer) => (
+                importer && importer.endsWith('/src/utils/vue.ts') && source.startsWith('./')
+                    ? { id: 'fs-utils-lib', external: true }
+                    : null
+            )
+        },
+        dts({
+            outDir: 'dist/types',
+            include: ['src/vue.ts', 'src/utils/vue.ts'],
+            beforeWriteFile: (filePath, content) => ({
+                filePath,
+                content: content.replace(/from '\.\/(common|storage)'/g, "from 'fs-utils-lib'")
+            })
+        })
+    ],
+    build: {
+        // 不清空主入口的构建结果
+        emptyOutDir: false,
+        lib: {
+            entry: resolve(__dirname, 'src/vue.ts'),
+            name: 'fsUtilsLibVue',
+            fileName: (format) => `fs-utils-lib.vue.${format}.js`,
+        },
+        rollupOptions: {
+            external: ['vue'],
+            output: {
+                globals: {
+                    vue: 'Vue',
+                    'fs-utils-lib': 'fsUtilsLib'
+                }
+            }
+        }
+    }
+})
+
+export default defineConfig(({ mode }) => mode === 'vue' ? vueEntryConfig : {
     plugins: [dts({rollupTypes: true, outDir: 'dist/types'})],
     build: {
         lib: {